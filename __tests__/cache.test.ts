@@ -0,0 +1,111 @@
+import { setTimeout as sleep } from 'timers/promises';
+
+type CacheModule = typeof import('../cache.js');
+
+let LRUCache: CacheModule['LRUCache'];
+let ResultCache: CacheModule['ResultCache'];
+
+beforeAll(async () => {
+  process.env.GOOGLE_API_KEY = 'test-key';
+  process.env.GOOGLE_CSE_ID = 'test-cse';
+  process.env.LOG_LEVEL = 'silent';
+  // Imported after the environment is prepared, since config is read at load time
+  ({ LRUCache, ResultCache } = await import('../cache.js'));
+});
+
+// Unit tests of the in-process tier: eviction order and per-entry expiry
+describe('LRUCache', () => {
+  it('evicts the least recently used entry once full', () => {
+    const cache = new LRUCache<number>(3, 60_000);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    // Reading "a" makes "b" the least recently used entry
+    expect(cache.get('a')).toBe(1);
+    cache.set('d', 4);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.size).toBe(3);
+
+    // Overwriting "c" also counts as a use, leaving "a" as the oldest
+    cache.set('c', 30);
+    cache.set('e', 5);
+    expect(cache.get('a')).toBeUndefined();
+    expect([cache.get('c'), cache.get('d'), cache.get('e')]).toEqual([30, 4, 5]);
+  });
+
+  it('expires entries once their TTL has passed', async () => {
+    const cache = new LRUCache<string>(10, 40);
+    cache.set('early', 'value');
+    await sleep(25);
+    cache.set('late', 'value');
+    await sleep(25);
+
+    expect(cache.get('early')).toBeUndefined();
+    expect(cache.get('late')).toBe('value');
+    expect(cache.size).toBe(1);
+  });
+
+  it('stores nothing when its size is zero', () => {
+    const cache = new LRUCache<number>(0, 60_000);
+    cache.set('a', 1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
+
+// Unit tests of the two-tier cache with only the LRU tier available
+describe('ResultCache', () => {
+  function counter() {
+    let calls = 0;
+    const loader = async () => ({ call: ++calls });
+    return { loader, calls: () => calls };
+  }
+
+  it('runs the loader once and serves later calls from the cache', async () => {
+    const cache = new ResultCache({ maxSize: 10, ttlSeconds: 60 });
+    const { loader, calls } = counter();
+
+    expect(await cache.wrap('search', 'q=solar', loader)).toEqual({ call: 1 });
+    expect(await cache.wrap('search', 'q=solar', loader)).toEqual({ call: 1 });
+    expect(await cache.wrap('page', 'q=solar', loader)).toEqual({ call: 2 });
+    expect(calls()).toBe(2);
+  });
+
+  it('ignores the cached value with bypassCache but stores the fresh one', async () => {
+    const cache = new ResultCache({ maxSize: 10, ttlSeconds: 60 });
+    const { loader, calls } = counter();
+
+    await cache.wrap('search', 'q=solar', loader);
+    expect(await cache.wrap('search', 'q=solar', loader, true)).toEqual({ call: 2 });
+    expect(await cache.wrap('search', 'q=solar', loader)).toEqual({ call: 2 });
+    expect(calls()).toBe(2);
+  });
+
+  it('reloads values whose TTL has passed', async () => {
+    const cache = new ResultCache({ maxSize: 10, ttlSeconds: 0.04 });
+    const { loader, calls } = counter();
+
+    await cache.wrap('search', 'q=solar', loader);
+    await sleep(60);
+    expect(await cache.wrap('search', 'q=solar', loader)).toEqual({ call: 2 });
+    expect(calls()).toBe(2);
+  });
+
+  it('falls back to the in-memory tier when Redis cannot be reached', async () => {
+    // Nothing listens on port 1, so the connection is refused straight away
+    const cache = new ResultCache({ maxSize: 10, ttlSeconds: 60, redisUrl: 'redis://127.0.0.1:1' });
+    const { loader, calls } = counter();
+
+    expect(await cache.get('search', 'q=solar')).toBeUndefined();
+    expect(await cache.wrap('search', 'q=solar', loader)).toEqual({ call: 1 });
+    expect(await cache.wrap('search', 'q=solar', loader)).toEqual({ call: 1 });
+    expect(calls()).toBe(1);
+  });
+
+  it('builds search keys without the API key, empty parameters or parameter order', () => {
+    expect(ResultCache.searchKey({ q: ' solar ', key: 'secret', cx: 'cse', start: '' }))
+      .toBe(ResultCache.searchKey({ cx: 'cse', q: 'solar', key: 'other' }));
+    expect(ResultCache.searchKey({ q: 'solar', cx: 'cse' })).toBe('cx=cse&q=solar');
+  });
+});
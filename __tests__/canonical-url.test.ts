@@ -0,0 +1,49 @@
+type CanonicalUrlModule = typeof import('../canonical-url.js');
+
+// Unit tests of URL canonicalization, in particular which AMP markers are
+// removed and which look-alike paths are left alone
+describe('canonicalizeUrl', () => {
+  let canonicalizeUrl: CanonicalUrlModule['canonicalizeUrl'];
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ canonicalizeUrl } = await import('../canonical-url.js'));
+  });
+
+  it('removes a trailing AMP segment and AMP extensions', () => {
+    expect(canonicalizeUrl('https://www.example.com/news/solar-surge/amp')).toBe('https://example.com/news/solar-surge');
+    expect(canonicalizeUrl('https://www.example.com/news/solar-surge/amp/')).toBe('https://example.com/news/solar-surge');
+    expect(canonicalizeUrl('https://example.com/news/solar-surge.amp.html')).toBe('https://example.com/news/solar-surge.html');
+  });
+
+  it('removes the AMP segment inside the path only for publishers known to use it', () => {
+    expect(canonicalizeUrl('https://www.bbc.co.uk/news/amp/world-asia-china-28580306'))
+      .toBe('https://bbc.com/news/world-asia-china-28580306');
+    expect(canonicalizeUrl('https://www.cnbc.com/amp/2024/05/20/solar-stocks.html'))
+      .toBe('https://cnbc.com/2024/05/20/solar-stocks.html');
+  });
+
+  it('keeps AMP segments that are part of an ordinary path', () => {
+    expect(canonicalizeUrl('https://amp.dev/amp/docs/getting-started/')).toBe('https://amp.dev/amp/docs/getting-started');
+    expect(canonicalizeUrl('https://shop.example.com/products/amp/guitar-amplifier-50w'))
+      .toBe('https://shop.example.com/products/amp/guitar-amplifier-50w');
+    expect(canonicalizeUrl('https://example.com/amp/article')).toBe('https://example.com/amp/article');
+  });
+
+  it('removes AMP parameters only when they request the AMP rendition', () => {
+    expect(canonicalizeUrl('https://example.com/article?amp=1&id=7')).toBe('https://example.com/article?id=7');
+    expect(canonicalizeUrl('https://example.com/article?outputType=amp')).toBe('https://example.com/article');
+    expect(canonicalizeUrl('https://example.com/article?outputType=print')).toBe('https://example.com/article?outputType=print');
+    expect(canonicalizeUrl('https://example.com/calculator?amp=15&volts=230')).toBe('https://example.com/calculator?amp=15&volts=230');
+  });
+
+  it('unwraps Google AMP viewer and AMP cache links', () => {
+    expect(canonicalizeUrl('https://www.google.com/amp/s/www.example.com/news/solar-surge/amp'))
+      .toBe('https://example.com/news/solar-surge');
+    expect(canonicalizeUrl('https://www-example-com.cdn.ampproject.org/c/s/www.example.com/news/solar-surge?amp=1'))
+      .toBe('https://example.com/news/solar-surge');
+  });
+});
@@ -0,0 +1,63 @@
+import iconv from 'iconv-lite';
+
+type CharsetModule = typeof import('../charset.js');
+
+// Unit tests of encoding detection: a byte order mark beats the Content-Type
+// charset, which beats a <meta> declaration, and undeclared bytes that are not
+// UTF-8 fall back to windows-1252
+describe('decodeText', () => {
+  let decodeText: CharsetModule['decodeText'];
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ decodeText } = await import('../charset.js'));
+  });
+
+  const page = (head: string, body: string, encoding: string) =>
+    iconv.encode(`<html><head>${head}</head><body><p>${body}</p></body></html>`, encoding);
+
+  it('follows a byte order mark over the header and the page', () => {
+    const bytes = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), page('<meta charset="windows-1251">', 'Café', 'utf8')]);
+    const decoded = decodeText(bytes, 'text/html; charset=Shift_JIS');
+    expect(decoded.encoding).toBe('UTF-8');
+    expect(decoded.text).toMatch(/^<html>/);
+    expect(decoded.text).toContain('Café');
+
+    const utf16 = iconv.encode('\ufeff<p>Grüße</p>', 'utf16le');
+    expect(decodeText(utf16, 'text/html; charset=utf-8')).toEqual({ text: '<p>Grüße</p>', encoding: 'UTF-16LE' });
+  });
+
+  it('follows the header charset over a <meta> declaration', () => {
+    const decoded = decodeText(page('<meta charset="EUC-JP">', '日本語のページ', 'Shift_JIS'), 'text/html; charset="Shift_JIS"');
+    expect(decoded.encoding).toBe('Shift_JIS');
+    expect(decoded.text).toContain('日本語のページ');
+  });
+
+  it('follows a <meta> declaration when the header has no charset', () => {
+    const charset = decodeText(page('<meta charset="windows-1251">', 'Привет, мир', 'windows-1251'), 'text/html');
+    expect(charset).toMatchObject({ encoding: 'windows-1251' });
+    expect(charset.text).toContain('Привет, мир');
+
+    const httpEquiv = decodeText(page('<meta http-equiv="Content-Type" content="text/html; charset=gb2312">', '中文网页', 'gbk'));
+    expect(httpEquiv.encoding).toBe('GBK');
+    expect(httpEquiv.text).toContain('中文网页');
+  });
+
+  it('finds a <meta> declaration behind a long <head>', () => {
+    const head = `<title>Solar</title>${'<link rel="preload" href="/assets/app.js">'.repeat(50)}<meta charset="windows-1251">`;
+    const decoded = decodeText(page(head, 'Солнечная энергия', 'windows-1251'));
+    expect(decoded.encoding).toBe('windows-1251');
+    expect(decoded.text).toContain('Солнечная энергия');
+  });
+
+  it('reads undeclared pages as UTF-8 unless their bytes are not valid UTF-8', () => {
+    expect(decodeText(page('', 'Café – 20 €', 'utf8'))).toMatchObject({ encoding: 'UTF-8' });
+
+    const legacy = decodeText(page('', 'Café – 20 €', 'windows-1252'), 'text/html');
+    expect(legacy.encoding).toBe('windows-1252');
+    expect(legacy.text).toContain('Café – 20 €');
+  });
+});
@@ -0,0 +1,112 @@
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+
+type BreakerModule = typeof import('../circuit-breaker.js');
+
+// Unit tests of the circuit breaker state machine, with short timeouts in
+// place of the configured ones
+describe('CircuitBreaker', () => {
+  let CircuitBreaker: BreakerModule['CircuitBreaker'];
+  let CircuitOpenError: BreakerModule['CircuitOpenError'];
+  let CircuitTimeoutError: BreakerModule['CircuitTimeoutError'];
+  let isUpstreamFailure: BreakerModule['isUpstreamFailure'];
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ CircuitBreaker, CircuitTimeoutError, CircuitOpenError, isUpstreamFailure } = await import('../circuit-breaker.js'));
+  });
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  const fail = () => Promise.reject(new Error('upstream down'));
+  const succeed = () => Promise.resolve('ok');
+
+  function breaker(options: { volumeThreshold?: number; windowSize?: number } = {}) {
+    return new CircuitBreaker({ timeoutMs: 50, errorThresholdPercentage: 50, resetTimeoutMs: 40, ...options });
+  }
+
+  it('opens at the error threshold, lets one trial through after the reset timeout and closes on success', async () => {
+    const circuit = breaker({ volumeThreshold: 4 });
+    await circuit.execute(succeed);
+    await circuit.execute(succeed);
+    await expect(circuit.execute(fail)).rejects.toThrow('upstream down');
+    expect(circuit.currentState).toBe('closed');
+    await expect(circuit.execute(fail)).rejects.toThrow('upstream down');
+    expect(circuit.snapshot()).toMatchObject({ state: 'open', recentCalls: 4, recentFailures: 2, errorPercentage: 50 });
+
+    // Open: calls fail fast without reaching the upstream
+    let called = false;
+    await expect(circuit.execute(() => { called = true; return succeed(); })).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(called).toBe(false);
+
+    await sleep(50);
+    expect(circuit.currentState).toBe('half-open');
+    // Only one trial call at a time
+    const trial = circuit.execute(() => sleep(10).then(succeed));
+    await expect(circuit.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(trial).resolves.toBe('ok');
+    expect(circuit.snapshot()).toMatchObject({ state: 'closed', recentCalls: 0, retryAt: null });
+  });
+
+  it('opens again when the half-open trial fails', async () => {
+    const circuit = breaker({ volumeThreshold: 1 });
+    await expect(circuit.execute(fail)).rejects.toThrow();
+    expect(circuit.currentState).toBe('open');
+    await sleep(50);
+    await expect(circuit.execute(fail)).rejects.toThrow('upstream down');
+    expect(circuit.currentState).toBe('open');
+  });
+
+  it('does not trip below the volume threshold', async () => {
+    const circuit = breaker({ volumeThreshold: 5 });
+    for (let call = 0; call < 4; call++) {
+      await expect(circuit.execute(fail)).rejects.toThrow();
+    }
+    expect(circuit.snapshot()).toMatchObject({ state: 'closed', recentFailures: 4, errorPercentage: 100 });
+    await expect(circuit.execute(fail)).rejects.toThrow();
+    expect(circuit.currentState).toBe('open');
+  });
+
+  it('aborts a call that times out and counts it as a failure', async () => {
+    const circuit = breaker({ volumeThreshold: 1 });
+    let aborted: unknown;
+    const slow = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => {
+        aborted = signal.reason;
+        reject(new CanceledError());
+      });
+    });
+    await expect(circuit.execute(slow)).rejects.toBeInstanceOf(CircuitTimeoutError);
+    expect(aborted).toBeInstanceOf(CircuitTimeoutError);
+    expect(circuit.currentState).toBe('open');
+  });
+
+  it('passes the caller\'s cancellation on to the call', async () => {
+    const circuit = breaker();
+    const controller = new AbortController();
+    const call = circuit.execute(signal => new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(new CanceledError()));
+    }), controller.signal);
+    controller.abort();
+    await expect(call).rejects.toBeInstanceOf(CanceledError);
+    expect(circuit.snapshot().recentCalls).toBe(0);
+  });
+
+  it('counts only timeouts, network errors and 5xx responses as upstream failures', () => {
+    const response = (status: number) => new AxiosError('failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+      status,
+      statusText: '',
+      data: {},
+      headers: {},
+      config: { headers: new AxiosHeaders() },
+    });
+    expect(isUpstreamFailure(new CircuitTimeoutError(50))).toBe(true);
+    expect(isUpstreamFailure(new AxiosError('socket hang up', 'ECONNRESET'))).toBe(true);
+    expect(isUpstreamFailure(response(503))).toBe(true);
+    expect(isUpstreamFailure(response(429))).toBe(false);
+    expect(isUpstreamFailure(response(400))).toBe(false);
+    expect(isUpstreamFailure(new CanceledError())).toBe(false);
+    expect(isUpstreamFailure(new Error('Rate limited locally'))).toBe(false);
+  });
+});
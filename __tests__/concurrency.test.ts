@@ -0,0 +1,146 @@
+import { setTimeout as sleep } from 'timers/promises';
+
+type ConcurrencyModule = typeof import('../concurrency.js');
+type CancellationModule = typeof import('../cancellation.js');
+
+let mapWithConcurrency: ConcurrencyModule['mapWithConcurrency'];
+let allSettledWithConcurrency: ConcurrencyModule['allSettledWithConcurrency'];
+let KeyedLimiter: ConcurrencyModule['KeyedLimiter'];
+let CancelledError: CancellationModule['CancelledError'];
+
+beforeAll(async () => {
+  process.env.GOOGLE_API_KEY = 'test-key';
+  process.env.GOOGLE_CSE_ID = 'test-cse';
+  process.env.LOG_LEVEL = 'silent';
+  // Imported after the environment is prepared, since config is read at load time
+  ({ mapWithConcurrency, allSettledWithConcurrency, KeyedLimiter } = await import('../concurrency.js'));
+  ({ CancelledError } = await import('../cancellation.js'));
+});
+
+// Wraps a task so the highest number of calls running at once is recorded
+function tracked<T, R>(task: (item: T) => Promise<R>) {
+  let running = 0;
+  let peak = 0;
+  const fn = async (item: T) => {
+    peak = Math.max(peak, ++running);
+    try {
+      return await task(item);
+    } finally {
+      running--;
+    }
+  };
+  return { fn, peak: () => peak };
+}
+
+describe('mapWithConcurrency', () => {
+  it('keeps the input order however the calls finish', async () => {
+    const delays = [40, 5, 25, 1, 15];
+    const { fn, peak } = tracked(async (ms: number) => {
+      await sleep(ms);
+      return `done after ${ms}`;
+    });
+
+    const results = await mapWithConcurrency(delays, 2, fn);
+    expect(results).toEqual(delays.map(ms => `done after ${ms}`));
+    expect(peak()).toBe(2);
+  });
+
+  it('runs at least one call at a time and handles empty input', async () => {
+    const { fn, peak } = tracked(async (n: number) => n * 2);
+    expect(await mapWithConcurrency([1, 2, 3], 0, fn)).toEqual([2, 4, 6]);
+    expect(peak()).toBe(1);
+    expect(await mapWithConcurrency([], 4, fn)).toEqual([]);
+  });
+});
+
+describe('allSettledWithConcurrency', () => {
+  it('settles every item in input order within the concurrency bound', async () => {
+    const { fn, peak } = tracked(async (n: number) => {
+      await sleep(10 - n);
+      if (n % 2 === 0) throw new Error(`even ${n}`);
+      return n;
+    });
+
+    const results = await allSettledWithConcurrency([1, 2, 3, 4, 5], 3, fn);
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'rejected', 'fulfilled']);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 1 });
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: new Error('even 2') });
+    expect(peak()).toBe(3);
+  });
+
+  it('rejects the items that had not started once the signal aborts', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const results = await allSettledWithConcurrency([1, 2, 3, 4], 1, async n => {
+      started.push(n);
+      if (n === 2) controller.abort('cancelled by client');
+      return n;
+    }, controller.signal);
+
+    expect(started).toEqual([1, 2]);
+    expect(results.slice(0, 2)).toEqual([{ status: 'fulfilled', value: 1 }, { status: 'fulfilled', value: 2 }]);
+    for (const result of results.slice(2)) {
+      expect(result.status).toBe('rejected');
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(CancelledError);
+    }
+  });
+});
+
+describe('KeyedLimiter', () => {
+  it('bounds the calls in flight per key without holding up other keys', async () => {
+    const limiter = new KeyedLimiter(2);
+    const running = new Map<string, number>();
+    const peaks = new Map<string, number>();
+    const order: string[] = [];
+
+    const task = (key: string, id: number) => limiter.run(key, async () => {
+      running.set(key, (running.get(key) || 0) + 1);
+      peaks.set(key, Math.max(peaks.get(key) || 0, running.get(key) || 0));
+      await sleep(10);
+      running.set(key, (running.get(key) || 0) - 1);
+      order.push(`${key}${id}`);
+      return id;
+    });
+
+    const results = await Promise.all([
+      task('a', 1), task('a', 2), task('a', 3), task('a', 4), task('a', 5), task('b', 1),
+    ]);
+    expect(results).toEqual([1, 2, 3, 4, 5, 1]);
+    expect(Object.fromEntries(peaks)).toEqual({ a: 2, b: 1 });
+    // Queued calls for a key start in the order they arrived
+    expect(order.filter(id => id.startsWith('a'))).toEqual(['a1', 'a2', 'a3', 'a4', 'a5']);
+  });
+
+  it('drops a cancelled caller from the queue without holding up the ones behind it', async () => {
+    const limiter = new KeyedLimiter(1);
+    const controller = new AbortController();
+    const started: string[] = [];
+    const task = (id: string, signal?: AbortSignal) => limiter.run('host', async () => {
+      started.push(id);
+      await sleep(20);
+      return id;
+    }, signal);
+
+    const first = task('first');
+    const cancelled = task('cancelled', controller.signal);
+    const last = task('last');
+    controller.abort('cancelled by client');
+
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+    expect(await Promise.all([first, last])).toEqual(['first', 'last']);
+    expect(started).toEqual(['first', 'last']);
+  });
+
+  it('rejects a caller whose call is already cancelled', async () => {
+    const limiter = new KeyedLimiter(1);
+    const controller = new AbortController();
+    controller.abort('cancelled by client');
+    let ran = false;
+
+    await expect(limiter.run('host', async () => {
+      ran = true;
+    }, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+    expect(ran).toBe(false);
+  });
+});
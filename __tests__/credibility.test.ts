@@ -0,0 +1,41 @@
+type CredibilityModule = typeof import('../credibility.js');
+
+// Unit tests of credibility lookups by host, parent domain, domain class and
+// category, with the scores passed in rather than read from a settings file
+describe('CredibilityEngine', () => {
+  let CredibilityEngine: CredibilityModule['CredibilityEngine'];
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ CredibilityEngine } = await import('../credibility.js'));
+  });
+
+  const engine = (overrides: Record<string, number> = {}, categories: Record<string, number> = {}) =>
+    new CredibilityEngine(() => ({ default: 0.5, overrides, categories }));
+
+  it('prefers overrides, then known sources, then domain classes, then categories', () => {
+    const scores = engine({ 'example.com': 0.3 }, { News: 0.6 });
+    expect(scores.assess('https://blog.example.com/post')).toMatchObject({
+      score: 0.3,
+      reason: 'Deployment override for example.com (matched blog.example.com)',
+    });
+    expect(scores.assess('https://www.bbc.co.uk/news')).toMatchObject({ score: 0.9, domain: 'bbc.co.uk' });
+    expect(scores.assess('https://www.ed.ac.uk/')).toMatchObject({ score: 0.8, reason: 'Educational institution domain (.ac.uk)' });
+    expect(scores.assess('https://local.example.org/', 'News').score).toBe(0.6);
+    expect(scores.assess('https://local.example.org/', 'Research').score).toBe(0.65);
+    expect(scores.assess('https://local.example.org/').score).toBe(0.5);
+  });
+
+  it('does not match names every object inherits', () => {
+    const scores = engine();
+    for (const host of ['constructor', 'example.constructor', 'hasownproperty', 'example.tostring']) {
+      expect(scores.assess(`https://${host}/`)).toMatchObject({ score: 0.5, reason: expect.stringContaining('using the default score') });
+    }
+    for (const category of ['constructor', '__proto__', 'toString']) {
+      expect(scores.assess('https://local.example.org/', category).score).toBe(0.5);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+type HttpServerModule = typeof import('../http-server.js');
+type McpServerModule = typeof import('../mcp-server.js');
+
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// A minimal Server-Sent Events reader, since Node has no EventSource
+class SseStream {
+  private buffer = '';
+  private events: SseEvent[] = [];
+  private waiters: ((event: SseEvent) => void)[] = [];
+
+  constructor(readonly request: http.ClientRequest, response: http.IncomingMessage) {
+    response.setEncoding('utf8');
+    response.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let end: number;
+      while ((end = this.buffer.indexOf('\n\n')) !== -1) {
+        const block = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        const event: SseEvent = { event: 'message', data: '' };
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event: ')) event.event = line.slice(7);
+          if (line.startsWith('data: ')) event.data += line.slice(6);
+        }
+        const waiter = this.waiters.shift();
+        if (waiter) waiter(event);
+        else this.events.push(event);
+      }
+    });
+  }
+
+  next(): Promise<SseEvent> {
+    const event = this.events.shift();
+    return event ? Promise.resolve(event) : new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  close() {
+    this.request.destroy();
+  }
+}
+
+// Integration tests of the HTTP transport: MCP sessions over SSE and the
+// /healthz endpoint, on a server listening on an ephemeral port
+describe('startHttpServer', () => {
+  let startHttpServer: HttpServerModule['startHttpServer'];
+  let GoogleSearchMCPServer: McpServerModule['default'];
+  let httpServer: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.HEALTH_TOKEN = 'health-secret';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ startHttpServer } = await import('../http-server.js'));
+    ({ default: GoogleSearchMCPServer } = await import('../mcp-server.js'));
+    httpServer = await startHttpServer(0, () => new GoogleSearchMCPServer());
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  function openSse(): Promise<SseStream> {
+    return new Promise((resolve, reject) => {
+      const request = http.get(`${baseUrl}/sse`, response => resolve(new SseStream(request, response)));
+      request.on('error', reject);
+    });
+  }
+
+  async function health(authorization?: string) {
+    const response = await fetch(`${baseUrl}/healthz`, { headers: authorization ? { authorization } : {} });
+    expect(response.status).toBe(200);
+    return response.json();
+  }
+
+  it('runs an MCP session over SSE', async () => {
+    const stream = await openSse();
+    try {
+      const endpoint = await stream.next();
+      expect(endpoint.event).toBe('endpoint');
+      expect(endpoint.data).toMatch(/^\/messages\?sessionId=/);
+
+      const post = (message: unknown) => fetch(`${baseUrl}${endpoint.data}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+      });
+
+      const initialize = await post({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'sse-test', version: '1.0.0' } },
+      });
+      expect(initialize.status).toBe(202);
+      const initialized = JSON.parse((await stream.next()).data);
+      expect(initialized).toMatchObject({ id: 1, result: { serverInfo: { name: expect.any(String) } } });
+
+      await post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+      await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+      const tools = JSON.parse((await stream.next()).data);
+      expect(tools.id).toBe(2);
+      expect(tools.result.tools.map((tool: { name: string }) => tool.name)).toContain('google_search');
+
+      expect((await health()).sessions).toBe(1);
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('rejects messages for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/messages?sessionId=missing`, { method: 'POST', body: '{}' });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: 'unknown_session' });
+  });
+
+  it('hides key suffixes and upstream errors from /healthz without the health token', async () => {
+    for (const authorization of [undefined, 'Bearer wrong', 'Bearer health-secreT', 'health-secret']) {
+      const body = await health(authorization);
+      expect(body.status).toBe('ok');
+      expect(body.apiKeys.keys[0]).not.toHaveProperty('key');
+      expect(body.apiKeys.keys[0]).not.toHaveProperty('lastError');
+    }
+  });
+
+  it('reports key suffixes and upstream errors to requests bearing the health token', async () => {
+    const body = await health('Bearer health-secret');
+    expect(body.apiKeys.keys[0]).toMatchObject({ key: '...-key', lastError: null });
+  });
+});
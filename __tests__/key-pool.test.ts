@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+type KeyPoolModule = typeof import('../key-pool.js');
+type RateLimiterModule = typeof import('../rate-limiter.js');
+
+// Unit tests of key rotation, cooldowns and quota accounting, with quota
+// state in a temporary directory
+describe('ApiKeyPool', () => {
+  let ApiKeyPool: KeyPoolModule['ApiKeyPool'];
+  let QuotaExceededError: RateLimiterModule['QuotaExceededError'];
+  let stateDir: string;
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ ApiKeyPool } = await import('../key-pool.js'));
+    ({ QuotaExceededError } = await import('../rate-limiter.js'));
+  });
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'key-pool-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  function pool(rotation: 'round-robin' | 'failover', dailyLimit = 10) {
+    return new ApiKeyPool(['key-a', 'key-b', 'key-c'].map(apiKey => ({ apiKey })), {
+      rotation,
+      dailyLimit,
+      stateFile: path.join(stateDir, 'quota.json'),
+      cooldownMs: 30,
+      rateLimitWindowMs: 30,
+    });
+  }
+
+  const keyOf = (keys: InstanceType<KeyPoolModule['ApiKeyPool']>) => keys.acquire().apiKey;
+
+  it('hands out keys in turn with round-robin rotation', () => {
+    const keys = pool('round-robin');
+    expect([keyOf(keys), keyOf(keys), keyOf(keys), keyOf(keys)]).toEqual(['key-a', 'key-b', 'key-c', 'key-a']);
+  });
+
+  it('keeps using the first healthy key with failover rotation', () => {
+    const keys = pool('failover');
+    expect([keyOf(keys), keyOf(keys)]).toEqual(['key-a', 'key-a']);
+    keys.reportFailure(ApiKeyPool.fingerprint('key-a'), 'forbidden', 'API key not valid');
+    expect(keyOf(keys)).toBe('key-b');
+  });
+
+  it('skips keys already tried for a request', () => {
+    const keys = pool('failover');
+    const tried = new Set([ApiKeyPool.fingerprint('key-a'), ApiKeyPool.fingerprint('key-b')]);
+    expect(keys.acquire(tried).apiKey).toBe('key-c');
+  });
+
+  it('tells which key comes next without reserving a request on it', () => {
+    const keys = pool('round-robin');
+    keyOf(keys);
+    expect(keys.peek()?.apiKey).toBe('key-b');
+    expect(keys.peek()?.apiKey).toBe('key-b');
+    expect(keys.quotaStatus().used).toBe(1);
+    expect(keyOf(keys)).toBe('key-b');
+  });
+
+  it('brings a rate limited or forbidden key back after its cooldown', async () => {
+    const keys = pool('failover');
+    keys.reportFailure(ApiKeyPool.fingerprint('key-a'), 'rate', 'Rate limit exceeded');
+    expect(keyOf(keys)).toBe('key-b');
+    expect(keys.snapshot().keys[0]).toMatchObject({ healthy: false, unavailableReason: 'rate' });
+
+    await sleep(40);
+    expect(keyOf(keys)).toBe('key-a');
+    expect(keys.snapshot().keys[0]).toMatchObject({ healthy: true, unavailableReason: null, unavailableUntil: null });
+  });
+
+  it('leaves key suffixes and upstream errors out of the snapshot unless asked', () => {
+    const keys = pool('failover');
+    keys.reportFailure(ApiKeyPool.fingerprint('key-a'), 'forbidden', 'API key not valid');
+    expect(keys.snapshot().keys[0]).not.toHaveProperty('key');
+    expect(keys.snapshot().keys[0]).not.toHaveProperty('lastError');
+    expect(keys.snapshot(true).keys[0]).toMatchObject({ key: '...ey-a', lastError: 'API key not valid' });
+  });
+
+  it('totals the quota of every key and gives back requests that were never sent', () => {
+    const keys = pool('round-robin', 5);
+    keys.acquire();
+    keys.acquire();
+    const key = keys.acquire();
+    expect(keys.quotaStatus()).toMatchObject({ used: 3, limit: 15, remaining: 12 });
+
+    keys.release(key.id);
+    expect(keys.quotaStatus()).toMatchObject({ used: 2, remaining: 13 });
+    // Counters are persisted per key next to the base state file
+    const saved = JSON.parse(fs.readFileSync(ApiKeyPool.quotaStateFile(path.join(stateDir, 'quota.json'), key.id), 'utf8'));
+    expect(saved.used).toBe(0);
+  });
+
+  it('reports the daily quota once every key is exhausted', () => {
+    const keys = pool('round-robin', 1);
+    keys.acquire();
+    keys.acquire();
+    keys.reportFailure(ApiKeyPool.fingerprint('key-c'), 'quota', 'Quota exceeded for quota metric Queries per day');
+
+    expect(() => keys.acquire()).toThrow(QuotaExceededError);
+    expect(keys.unavailableError().toJSON()).toMatchObject({
+      error: 'quota_exhausted',
+      scope: 'daily',
+      used: 3,
+      limit: 3,
+    });
+  });
+
+  it('reports a rate limit when keys with quota left are only cooling down', () => {
+    const keys = pool('failover');
+    for (const apiKey of ['key-a', 'key-b', 'key-c']) {
+      keys.reportFailure(ApiKeyPool.fingerprint(apiKey), 'rate', 'Rate limit exceeded');
+    }
+    expect(() => keys.acquire()).toThrow(/All 3 API key\(s\) are rate limited or failing/);
+  });
+});
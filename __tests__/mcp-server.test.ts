@@ -1,7 +1,449 @@
-// Simple test to verify the build works
-describe('MCP Server Build', () => {
-  it('should build successfully', () => {
-    // This test just verifies that the TypeScript compilation works
-    expect(true).toBe(true);
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema, JSONRPCMessage, LoggingMessageNotificationSchema, Progress } from '@modelcontextprotocol/sdk/types.js';
+
+// Regression tests that replay recorded search responses and pages from
+// __tests__/fixtures, so the multi-source tools run fully offline.
+describe('Tools in fixture replay mode', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    process.env.FIXTURE_MODE = 'replay';
+    process.env.FIXTURE_DIR = path.join(process.cwd(), '__tests__', 'fixtures');
+    process.env.SEARCH_PROVIDER = 'google';
+    process.env.LRU_CACHE_SIZE = '0';
+    process.env.LOG_LEVEL = 'silent';
+
+    // Imported after the environment is prepared, since config is read at load time
+    const { default: GoogleSearchMCPServer } = await import('../mcp-server.js');
+    const server = new GoogleSearchMCPServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
   });
-});
\ No newline at end of file
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as { type: string; text: string }[];
+    return { isError: result.isError, data: JSON.parse(content[0].text) };
+  }
+
+  it('fact_checker marks a debunked claim as disputed', async () => {
+    const { isError, data } = await callTool('fact_checker', {
+      claim: 'The Great Wall of China is visible from space with the naked eye',
+      sources: ['wikipedia.org', 'snopes.com'],
+      maxResults: 2,
+      confidenceThreshold: 0.5,
+      includeEvidence: true,
+    });
+
+    expect(isError).toBeFalsy();
+    expect(data.statistics.successfulSearches).toBe(2);
+    expect(data.statistics.failedSearches).toBe(0);
+    expect(data.statistics.totalResults).toBe(3);
+    expect(data.verification.status).toBe('disputed');
+    expect(data.verification.disputingSources.sort()).toEqual(['snopes.com', 'wikipedia.org']);
+    expect(data.verification.supportingSources).toEqual([]);
+    expect(data.evidence).toHaveLength(3);
+    expect(data.evidence.map((e: any) => e.url)).toContain('https://www.snopes.com/fact-check/great-wall-from-space/');
+
+    // Credibility is scored on the result host, matched up to its registrable domain
+    const wikipedia = data.sources.find((s: any) => s.source === 'wikipedia.org');
+    expect(wikipedia.items[0].credibilityScore).toBe(0.8);
+    expect(wikipedia.items[0].credibilityReason).toBe('Known source wikipedia.org (matched en.wikipedia.org)');
+    expect(wikipedia.credibilityScore).toBe(0.8);
+  });
+
+  it('fact_checker reports sources without fixtures as failed searches', async () => {
+    const { data } = await callTool('fact_checker', {
+      claim: 'The Great Wall of China is visible from space with the naked eye',
+      sources: ['wikipedia.org', 'example.org'],
+      maxResults: 2,
+      includeEvidence: false,
+    });
+
+    expect(data.statistics.successfulSearches).toBe(1);
+    expect(data.statistics.failedSearches).toBe(1);
+    const failed = data.sources.find((s: any) => s.source === 'example.org');
+    expect(failed.error).toMatch(/No recorded search fixture/);
+    expect(data.evidence).toEqual([]);
+  });
+
+  it('research_assistant builds a report from the recorded sources', async () => {
+    const { isError, data } = await callTool('research_assistant', {
+      researchTopic: 'renewable energy adoption in developing countries',
+      researchType: 'news',
+      sources: ['reuters.com'],
+      includeCitations: true,
+      generateReport: true,
+    });
+
+    expect(isError).toBeFalsy();
+    expect(data.sourceCategories).toEqual(['News Sources']);
+    expect(data.statistics.successfulSearches).toBe(1);
+    expect(data.statistics.totalResults).toBe(2);
+    expect(data.findings).toHaveLength(2);
+    expect(data.findings[0].keyInsights).toEqual(expect.arrayContaining([
+      expect.stringContaining('shows that solar capacity'),
+    ]));
+    expect(data.citations).toHaveLength(2);
+    expect(data.researchWorkflow.phase).toBe('completed');
+    expect(data.report.title).toBe('Research Report: renewable energy adoption in developing countries');
+    expect(data.report.findings).toContain('Solar installations surge across Africa (reuters.com)');
+  });
+
+  // One notification per workflow step (category search, analysis, synthesis,
+  // citations, report) plus a final one once the research is completed
+  it('research_assistant reports workflow phases as progress notifications', async () => {
+    const updates: Progress[] = [];
+    await client.callTool({
+      name: 'research_assistant',
+      arguments: {
+        researchTopic: 'renewable energy adoption in developing countries',
+        researchType: 'news',
+        sources: ['reuters.com'],
+        includeCitations: true,
+        generateReport: true,
+      },
+    }, CallToolResultSchema, { onprogress: update => updates.push(update) });
+
+    expect(updates.map(update => update.progress)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(updates.every(update => update.total === 5)).toBe(true);
+  });
+
+  // The first page fetched cancels the call: the queued second page and the
+  // next category's search must never start, and what was gathered arrives
+  // as a log message since the response itself is dropped
+  it('research_assistant starts no further searches or fetches once cancelled', async () => {
+    const { default: GoogleSearchMCPServer } = await import('../mcp-server.js');
+    const { FixtureStore, fixtureStore } = await import('../fixtures.js');
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+    // Remember the id of the tool call, to cancel it by
+    let callId: string | number = -1;
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = async (message: JSONRPCMessage) => {
+      if ('method' in message && message.method === 'tools/call' && 'id' in message) callId = message.id;
+      return send(message);
+    };
+
+    const cancelClient = new Client({ name: 'cancel-client', version: '1.0.0' }, { capabilities: {} });
+    const partialResult = new Promise<any>(resolve => {
+      cancelClient.setNotificationHandler(LoggingMessageNotificationSchema, notification => resolve(notification.params));
+    });
+    await new GoogleSearchMCPServer().connect(serverTransport);
+    await cancelClient.connect(clientTransport);
+
+    const started: string[] = [];
+    let cancelled = false;
+    const searchFixtureName = FixtureStore.searchFixtureName;
+    const page = fixtureStore.page;
+    FixtureStore.searchFixtureName = (provider, request) => {
+      started.push(`${cancelled ? 'after' : 'before'} cancel: search ${request.siteSearch}`);
+      return searchFixtureName(provider, request);
+    };
+    fixtureStore.page = async (url, loader) => {
+      started.push(`${cancelled ? 'after' : 'before'} cancel: fetch ${url}`);
+      if (!cancelled) {
+        cancelled = true;
+        // Sent by hand: this SDK version's client names the notification `cancelled`
+        await clientTransport.send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: callId, reason: 'test' } });
+      }
+      return page.call(fixtureStore, url, loader);
+    };
+
+    try {
+      // Never answered once cancelled
+      void cancelClient.callTool({
+        name: 'research_assistant',
+        arguments: {
+          researchTopic: 'renewable energy adoption in developing countries',
+          researchType: 'news',
+          sources: ['reuters.com', 'snopes.com'],
+          concurrency: 1,
+        },
+      }).catch(() => undefined);
+
+      const { level, logger, data } = await partialResult;
+      expect(started).toEqual([
+        'before cancel: search reuters.com',
+        'before cancel: fetch https://www.reuters.com/business/energy/solar-installations-surge-africa/',
+      ]);
+      expect({ level, logger }).toEqual({ level: 'notice', logger: 'partial-result' });
+      expect(data.tool).toBe('research_assistant');
+      expect(data.result).toMatchObject({ partial: true, cancellation: { reason: 'test' } });
+      expect(data.result.researchWorkflow.phase).toBe('cancelled');
+      expect(data.result.statistics.totalSourcesSearched).toBe(1);
+    } finally {
+      FixtureStore.searchFixtureName = searchFixtureName;
+      fixtureStore.page = page;
+      await cancelClient.close();
+    }
+  });
+
+  // Twelve results are available: the second page repeats one link from the
+  // first, and the engine's total is reached after it
+  it('google_search pages through results up to maxResults', async () => {
+    const { isError, data } = await callTool('google_search', { q: 'great wall of china history', maxResults: 12 });
+
+    expect(isError).toBeFalsy();
+    expect(data.items).toHaveLength(11);
+    expect(new Set(data.items.map((item: any) => item.link)).size).toBe(11);
+    expect(data.pagination).toEqual({
+      requested: 12,
+      pagesFetched: 2,
+      apiCalls: 2,
+      duplicatesRemoved: 1,
+      stoppedBecause: 'exhausted',
+    });
+    expect(data.searchInfo.quotaUnitsUsed).toBe(2);
+    expect(data.circuitBreaker).toMatchObject({ state: 'closed', retryAt: null });
+  });
+
+  it('multi_site_search merges the same article returned by mirror sites', async () => {
+    const { data } = await callTool('multi_site_search', {
+      query: 'great wall of china erosion',
+      sites: ['bbc.com', 'bbc.co.uk'],
+      maxResults: 2,
+    });
+
+    // The bbc.co.uk AMP link is the bbc.com article with tracking parameters removed
+    expect(data.summary.duplicatesMerged).toBe(1);
+    expect(data.summary.totalResults).toBe(3);
+    const [bbcCom, bbcCoUk] = data.results;
+    expect(bbcCoUk.items.map((item: any) => item.link)).toEqual(['https://www.bbc.co.uk/bitesize/articles/great-wall-erosion']);
+    expect(bbcCom.items[0].canonicalUrl).toBe('https://bbc.com/news/world-asia-china-28580306');
+    expect(bbcCom.items[0].sources).toEqual([
+      { source: 'bbc.com', link: 'https://www.bbc.com/news/world-asia-china-28580306?at_medium=RSS&utm_source=twitter' },
+      { source: 'bbc.co.uk', link: 'https://www.bbc.co.uk/news/amp/world-asia-china-28580306' },
+    ]);
+  });
+
+  it('multi_site_search fuses the per-site rankings into one list', async () => {
+    const { data } = await callTool('multi_site_search', {
+      query: 'great wall of china erosion',
+      sites: ['bbc.com', 'bbc.co.uk'],
+      maxResults: 2,
+      merge: true,
+    });
+
+    expect(data.merged.method).toBe('rrf');
+    expect(data.merged.items).toHaveLength(3);
+    // Ranked first by both sites, so it collects 1/61 from each
+    const [top, ...rest] = data.merged.items;
+    expect(top).toMatchObject({ site: 'bbc.com', siteRank: 1, rrfScore: 0.0328, score: 1 });
+    expect(top.sources.map((record: any) => record.source)).toEqual(['bbc.com', 'bbc.co.uk']);
+    expect(rest.map((item: any) => [item.site, item.siteRank])).toEqual([['bbc.com', 2], ['bbc.co.uk', 2]]);
+  });
+
+  it('stores fact_checker verdicts and their evidence pages as resources', async () => {
+    const { data } = await callTool('fact_checker', {
+      claim: 'The Great Wall of China is visible from space with the naked eye',
+      sources: ['snopes.com'],
+      maxResults: 1,
+      includeEvidence: true,
+    });
+    expect(data.resourceUri).toMatch(/^factcheck:\/\/[0-9a-f]{8}$/);
+
+    const { resources } = await client.listResources();
+    expect(resources[0]).toMatchObject({ uri: data.resourceUri, mimeType: 'application/json' });
+
+    const { contents } = await client.readResource({ uri: data.resourceUri });
+    const stored = JSON.parse(contents[0].text as string);
+    expect(stored.claim).toBe(data.claim);
+    expect(stored.verification).toEqual(data.verification);
+
+    await expect(client.readResource({ uri: 'factcheck://missing' })).rejects.toThrow(/Resource not found/);
+  });
+
+  it('content_summarizer reuses a page stored by extract_content', async () => {
+    const extracted = await callTool('extract_content', { url: 'https://www.snopes.com/fact-check/great-wall-from-space/' });
+    expect(extracted.data.resourceUri).toMatch(/^page:\/\/[0-9a-f]{12}$/);
+    // Navigation and footer are dropped, paragraphs stay apart
+    expect(extracted.data.content).toMatch(/^Is the Great Wall of China Visible from Space\?\n\nClaim: /);
+    expect(extracted.data.content).not.toMatch(/Home \| News|Copyright/);
+
+    const { data } = await callTool('content_summarizer', { urls: [extracted.data.resourceUri] });
+    expect(data.statistics.successfulExtractions).toBe(1);
+    expect(data.summaries[0].title).toBe(extracted.data.title);
+    expect(data.summaries[0].resourceUri).toBe(extracted.data.resourceUri);
+  });
+
+  it('extract_content returns the main content as markdown', async () => {
+    const { isError, data } = await callTool('extract_content', {
+      url: 'https://www.snopes.com/fact-check/great-wall-from-space/',
+      format: 'markdown',
+    });
+
+    expect(isError).toBeFalsy();
+    expect(data.format).toBe('markdown');
+    expect(data.content).toMatch(/^# Is the Great Wall of China Visible from Space\?\n\n/);
+    expect(data.content).not.toMatch(/Home \| News|Copyright/);
+    // Counted on the plain text, so the markup does not change it
+    const text = await callTool('extract_content', { url: 'https://www.snopes.com/fact-check/great-wall-from-space/' });
+    expect(data.wordCount).toBe(text.data.wordCount);
+  });
+
+  it('extract_content keeps lists, code and tables and drops unsafe links', async () => {
+    const url = 'https://www.energy.gov/eere/solar/homeowners-guide-sizing-solar-system';
+    const markdown = await callTool('extract_content', { url, format: 'markdown' });
+
+    expect(markdown.isError).toBeFalsy();
+    expect(markdown.data.content).toContain(
+      '- Twelve months of utility bills\n- The orientation and tilt of your roof\n- Local peak sun hours'
+    );
+    expect(markdown.data.content).toContain(
+      '1. Add up your annual use in kilowatt-hours.\n2. Divide by 365 and by your peak sun hours.\n3. Add about 25 percent for system losses.'
+    );
+    expect(markdown.data.content).toContain(
+      '```python\nannual_kwh = 10800\nsun_hours = 4.5\nsystem_kw = annual_kwh / 365 / sun_hours * 1.25\nprint(round(system_kw, 1))\n```'
+    );
+    expect(markdown.data.content).toContain(
+      '| Annual use | System size |\n| --- | --- |\n| 6,000 kWh | 4.6 kW |\n| 10,800 kWh | 8.2 kW |'
+    );
+    // Relative links are made absolute; javascript: links and data: images lose their URL
+    expect(markdown.data.content).toContain('[solar calculators](https://www.energy.gov/eere/solar/solar-calculators) or open the sizing wizard.');
+    expect(markdown.data.content).toContain('![Panels on a roof](https://www.energy.gov/sites/default/files/solar-roof.jpg)');
+    expect(markdown.data.content).toContain('[the Solar Energy Technologies Office](mailto:solar@energy.gov)');
+    expect(markdown.data.content).not.toMatch(/javascript:|data:image|Tracking pixel/);
+
+    const html = await callTool('extract_content', { url, format: 'html' });
+    expect(html.isError).toBeFalsy();
+    expect(html.data.content).toContain('<a href="https://www.energy.gov/eere/solar/solar-calculators">solar calculators</a> or <a>open the sizing wizard</a>');
+    expect(html.data.content).toContain('<img alt="Tracking pixel"><img src="https://www.energy.gov/sites/default/files/solar-roof.jpg" alt="Panels on a roof">');
+    expect(html.data.content).toContain('<pre><code class="language-python">annual_kwh = 10800');
+    expect(html.data.content).toContain('<th scope="col">Annual use</th>');
+    expect(html.data.content).not.toMatch(/javascript:|data:image|onclick|onerror|style=/);
+  });
+
+  it('extract_content keeps content wrapped in a page-wide form', async () => {
+    // ASP.NET WebForms pages put the whole body in one <form id="aspnetForm">
+    const { isError, data } = await callTool('extract_content', { url: 'https://www.nrel.gov/news/program/2024/rural-solar-microgrids.aspx' });
+
+    expect(isError).toBeFalsy();
+    expect(data.content).toMatch(/^Solar microgrids bring power to rural clinics\n\nResearchers worked with health ministries/);
+    expect(data.content).toMatch(/keeps the clinics running when the sun does not shine, according to the project report\.$/);
+    // The search form is still dropped
+    expect(data.content).not.toMatch(/Search NREL/);
+  });
+
+  it('extract_content reads a long page chunk by chunk', async () => {
+    const url = 'https://www.unesco.org/en/articles/great-wall-state-conservation-report';
+    const first = await callTool('extract_content', { url });
+    expect(first.data).toMatchObject({ chunkIndex: 0, totalChunks: 2 });
+    expect(first.data.content.length).toBeLessThanOrEqual(5000);
+    // Chunks end between paragraphs, and a heading stays with its section
+    expect(first.data.content).toMatch(/work is considered\.$/);
+
+    const second = await callTool('extract_content', { url, cursor: first.data.nextCursor });
+    expect(second.data.chunkIndex).toBe(1);
+    expect(second.data.content).toMatch(/^7\. Gansu\n\nThe survey teams/);
+    expect(second.data.nextCursor).toBeUndefined();
+    expect(second.data.wordCount).toBe(first.data.wordCount);
+
+    const outOfRange = await client.callTool({ name: 'extract_content', arguments: { url, chunkIndex: 2 } });
+    expect(outOfRange.isError).toBe(true);
+    expect((outOfRange.content as { text: string }[])[0].text).toMatch(/chunkIndex 2 is out of range; the page has 2 chunks/);
+  });
+
+  it('extract_content reads the text and metadata of a PDF', async () => {
+    const { isError, data } = await callTool('extract_content', { url: 'https://arxiv.org/pdf/2403.01234' });
+
+    expect(isError).toBeFalsy();
+    expect(data.documentType).toBe('pdf');
+    expect(data.title).toBe('Erosion of the Great Wall');
+    expect(data.pdf.pageCount).toBe(2);
+    expect(data.pdf.metadata).toEqual({
+      title: 'Erosion of the Great Wall',
+      author: 'Li Wei; Anna Berg',
+      creationDate: '2024-03-12T09:30:00.000Z',
+    });
+    // Lines are joined into paragraphs and the hyphenated "weath-ering" is rejoined
+    expect(data.pdf.pages[0].text).toBe(
+      'Erosion of the Great Wall of China\n\nAbstract. Rammed earth sections of the wall are eroding, with about a third of the Ming wall lost to weathering and farming.'
+    );
+    expect(data.pdf.pages[1].text).toMatch(/^2\. Methods\n\nWe surveyed 120 kilometres/);
+    expect(data.content).toBe(`${data.pdf.pages[0].text}\n\n${data.pdf.pages[1].text}`);
+  });
+
+  it('extract_content normalizes the structured metadata of a page', async () => {
+    const url = 'https://www.dw.com/en/solar-mini-grids-bring-power-to-kenyas-remote-villages/a-69123456';
+    const { isError, data } = await callTool('extract_content', { url });
+
+    expect(isError).toBeFalsy();
+    // JSON-LD outranks OpenGraph and meta tags; profile URLs and bylines are not names
+    expect(data.metadata).toEqual({
+      title: "Solar mini-grids bring power to Kenya's remote villages",
+      description: 'Community-owned solar mini-grids now supply electricity to hundreds of villages far from the national grid.',
+      authors: ['Wanjiru Kamau', 'Thomas Reid'],
+      publisher: 'Deutsche Welle',
+      publishedAt: '2024-05-20T06:00:00.000Z',
+      modifiedAt: '2024-05-20T09:15:00.000Z',
+      canonicalUrl: url,
+      language: 'en-GB',
+      type: 'NewsArticle',
+      image: 'https://static.dw.com/image/kenya-mini-grid.jpg',
+      keywords: ['Energy', 'Kenya', 'Solar'],
+      sources: ['json-ld', 'opengraph', 'meta', 'html'],
+    });
+
+    const research = await callTool('research_assistant', {
+      researchTopic: 'solar mini-grids in rural Kenya',
+      researchType: 'news',
+      sources: ['dw.com'],
+      includeCitations: true,
+    });
+    const citation = research.data.citations.find((c: any) => c.url === url);
+    expect(citation).toMatchObject({ authors: ['Wanjiru Kamau', 'Thomas Reid'], publishedAt: '2024-05-20T06:00:00.000Z' });
+  });
+
+  it('extract_content decodes a page in the encoding it declares', async () => {
+    // Served as text/html without a charset; the page declares Shift_JIS in a meta tag
+    const { isError, data } = await callTool('extract_content', { url: 'https://www.asahi.com/articles/great-wall-space.html' });
+
+    expect(isError).toBeFalsy();
+    expect(data.encoding).toBe('Shift_JIS');
+    expect(data.title).toBe('万里の長城は宇宙から見えるのか');
+    expect(data.content).toMatch(/^万里の長城は宇宙から見えるのか\n\n万里の長城は宇宙から肉眼で見える唯一の人工建造物/);
+    expect(data.metadata.language).toBe('ja');
+
+    const utf8 = await callTool('extract_content', { url: 'https://www.snopes.com/fact-check/great-wall-from-space/' });
+    expect(utf8.data.encoding).toBe('UTF-8');
+  });
+
+  it('declares an output schema for every tool and returns matching structured content', async () => {
+    const { tools } = await client.listTools();
+    expect(tools).toHaveLength(9);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toMatchObject({ type: 'object', additionalProperties: false });
+    }
+    const factChecker = tools.find(tool => tool.name === 'fact_checker') as any;
+    expect(factChecker.outputSchema.required).toEqual(expect.arrayContaining(['claim', 'verification', 'sources', 'evidence']));
+
+    const result = await client.callTool({ name: 'fact_checker', arguments: { claim: 'The Great Wall of China is visible from space', sources: ['snopes.com'] } });
+    const content = result.content as { type: string; text: string }[];
+    expect(result.structuredContent).toEqual(JSON.parse(content[0].text));
+  });
+
+  it('serves research workflow prompts that reference the tools', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['verify_claim', 'literature_review', 'daily_news_brief', 'competitive_scan']);
+
+    const { messages } = await client.getPrompt({
+      name: 'verify_claim',
+      arguments: { claim: 'Bats are blind', timeframe: 'y1', sources: 'snopes.com, wikipedia.org' },
+    });
+    expect(messages[0].content.text).toContain(
+      'Call `fact_checker` with {"claim":"Bats are blind","includeEvidence":true,"timeframe":"y1","sources":["snopes.com","wikipedia.org"]}'
+    );
+
+    await expect(client.getPrompt({ name: 'verify_claim', arguments: {} })).rejects.toThrow(/Invalid arguments for prompt verify_claim: claim/);
+  });
+});
@@ -0,0 +1,33 @@
+type PdfExtractorModule = typeof import('../pdf-extractor.js');
+
+// Unit tests of PDF detection from the content type and the file signature
+describe('isPdf', () => {
+  let isPdf: PdfExtractorModule['isPdf'];
+  const pdfBytes = Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n1 0 obj\n<< /Type /Catalog >>\nendobj\n', 'latin1');
+  const htmlBytes = Buffer.from('<html><body><p>Files start with %PDF- followed by the version</p></body></html>');
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ isPdf } = await import('../pdf-extractor.js'));
+  });
+
+  it('trusts a PDF content type', () => {
+    expect(isPdf('application/pdf', htmlBytes)).toBe(true);
+    expect(isPdf('Application/X-PDF; name=report.pdf', pdfBytes)).toBe(true);
+  });
+
+  it('checks the file signature when the content type is missing or generic', () => {
+    expect(isPdf(undefined, pdfBytes)).toBe(true);
+    expect(isPdf('application/octet-stream', pdfBytes)).toBe(true);
+    expect(isPdf(undefined, Buffer.from('<html></html>'))).toBe(false);
+  });
+
+  it('does not sniff pages declared as another type', () => {
+    expect(isPdf('text/html; charset=utf-8', htmlBytes)).toBe(false);
+    expect(isPdf('text/html', pdfBytes)).toBe(false);
+    expect(isPdf('text/plain', pdfBytes)).toBe(false);
+  });
+});
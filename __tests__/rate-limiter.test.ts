@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+type RateLimiterModule = typeof import('../rate-limiter.js');
+type CancellationModule = typeof import('../cancellation.js');
+
+let TokenBucket: RateLimiterModule['TokenBucket'];
+let DailyQuota: RateLimiterModule['DailyQuota'];
+let QuotaExceededError: RateLimiterModule['QuotaExceededError'];
+let CancelledError: CancellationModule['CancelledError'];
+
+beforeAll(async () => {
+  process.env.GOOGLE_API_KEY = 'test-key';
+  process.env.GOOGLE_CSE_ID = 'test-cse';
+  process.env.LOG_LEVEL = 'silent';
+  // Imported after the environment is prepared, since config is read at load time
+  ({ TokenBucket, DailyQuota, QuotaExceededError } = await import('../rate-limiter.js'));
+  ({ CancelledError } = await import('../cancellation.js'));
+});
+
+// Unit tests of the search rate limiter and the daily quota, with short
+// windows and quota state in a temporary directory
+describe('TokenBucket', () => {
+  it('starts full and refills at the configured rate', async () => {
+    const bucket = new TokenBucket(3, 300);
+    await bucket.acquire();
+    await bucket.acquire();
+    expect(bucket.available).toBe(1);
+    await new Promise(resolve => setTimeout(resolve, 120));
+    expect(bucket.available).toBe(2);
+    // Never beyond capacity
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(bucket.available).toBe(3);
+  });
+
+  it('queues callers in FIFO order once the bucket is empty', async () => {
+    const bucket = new TokenBucket(1, 30);
+    const order: number[] = [];
+    const startedAt = Date.now();
+    await Promise.all([1, 2, 3].map(caller => bucket.acquire().then(() => order.push(caller))));
+    expect(order).toEqual([1, 2, 3]);
+    // The second and third caller each waited for a token to refill
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(55);
+  });
+
+  it('drops a cancelled caller from the queue without holding up the ones behind it', async () => {
+    const bucket = new TokenBucket(1, 60);
+    await bucket.acquire();
+
+    const controller = new AbortController();
+    const order: string[] = [];
+    const cancelled = bucket.acquire(controller.signal).then(() => order.push('cancelled'), error => {
+      order.push('rejected');
+      return error;
+    });
+    const live = bucket.acquire().then(() => order.push('live'));
+
+    controller.abort('Client went away');
+    expect(await cancelled).toBeInstanceOf(CancelledError);
+    expect((await cancelled as InstanceType<CancellationModule['CancelledError']>).reason).toBe('Client went away');
+    await live;
+    expect(order).toEqual(['rejected', 'live']);
+    // The cancelled caller took no token
+    expect(bucket.available).toBe(0);
+  });
+
+  it('rejects a caller whose call is already cancelled', async () => {
+    const bucket = new TokenBucket(1, 60);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(bucket.acquire(controller.signal)).rejects.toBeInstanceOf(CancelledError);
+    expect(bucket.available).toBe(1);
+  });
+});
+
+describe('DailyQuota', () => {
+  let stateDir: string;
+  let stateFile: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'daily-quota-'));
+    stateFile = path.join(stateDir, 'nested', 'quota.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it('rolls over at midnight Pacific time, whether or not daylight saving is in effect', () => {
+    // 23:59 PST on January 1st, then midnight
+    expect(DailyQuota.currentDay(new Date('2024-01-02T07:59:00Z'))).toBe('2024-01-01');
+    expect(DailyQuota.currentDay(new Date('2024-01-02T08:00:00Z'))).toBe('2024-01-02');
+    expect(DailyQuota.nextReset(new Date('2024-01-01T20:00:00Z')).toISOString()).toBe('2024-01-02T08:00:00.000Z');
+    // PDT is an hour earlier in UTC
+    expect(DailyQuota.currentDay(new Date('2024-07-02T06:59:00Z'))).toBe('2024-07-01');
+    expect(DailyQuota.nextReset(new Date('2024-07-01T20:00:00Z')).toISOString()).toBe('2024-07-02T07:00:00.000Z');
+  });
+
+  it('resets at Pacific midnight on the days daylight saving starts and ends', () => {
+    // 01:00 PST on March 10th; the day is 23 hours long, so midnight PDT is 22 hours away
+    expect(DailyQuota.nextReset(new Date('2024-03-10T09:00:00Z')).toISOString()).toBe('2024-03-11T07:00:00.000Z');
+    expect(DailyQuota.nextReset(new Date('2024-03-10T20:00:00Z')).toISOString()).toBe('2024-03-11T07:00:00.000Z');
+    // 01:00 PDT on November 3rd; the day is 25 hours long, so midnight PST is 24 hours away
+    expect(DailyQuota.nextReset(new Date('2024-11-03T08:00:00Z')).toISOString()).toBe('2024-11-04T08:00:00.000Z');
+    expect(DailyQuota.nextReset(new Date('2024-11-03T20:00:00Z')).toISOString()).toBe('2024-11-04T08:00:00.000Z');
+    // The evening before each change
+    expect(DailyQuota.nextReset(new Date('2024-03-10T07:30:00Z')).toISOString()).toBe('2024-03-10T08:00:00.000Z');
+    expect(DailyQuota.nextReset(new Date('2024-11-03T06:30:00Z')).toISOString()).toBe('2024-11-03T07:00:00.000Z');
+  });
+
+  it('persists the count and reloads it after a restart', () => {
+    const quota = new DailyQuota(5, stateFile);
+    quota.consume();
+    quota.consume();
+    expect(JSON.parse(fs.readFileSync(stateFile, 'utf8'))).toEqual({ day: DailyQuota.currentDay(), used: 2 });
+
+    const restarted = new DailyQuota(5, stateFile);
+    expect(restarted.status()).toMatchObject({ used: 2, limit: 5, remaining: 3 });
+  });
+
+  it('starts a new day with a fresh budget', () => {
+    fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+    fs.writeFileSync(stateFile, JSON.stringify({ day: '2000-01-01', used: 5 }));
+
+    const quota = new DailyQuota(5, stateFile);
+    expect(quota.status()).toMatchObject({ used: 0, remaining: 5 });
+    expect(JSON.parse(fs.readFileSync(stateFile, 'utf8'))).toEqual({ day: DailyQuota.currentDay(), used: 0 });
+  });
+
+  it('refuses requests beyond the limit with a structured quota error', () => {
+    const quota = new DailyQuota(1, stateFile);
+    quota.consume();
+
+    let error: unknown;
+    try {
+      quota.consume();
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    const resetsAt = DailyQuota.nextReset().toISOString();
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      error: 'quota_exhausted',
+      scope: 'daily',
+      message: `Daily search quota exhausted (1/1), resets at ${resetsAt}`,
+      resetsAt,
+      used: 1,
+      limit: 1,
+    });
+  });
+
+  it('counts the budget as spent once Google reports the daily limit', () => {
+    const quota = new DailyQuota(10, stateFile);
+    quota.consume();
+    quota.exhaust();
+    expect(quota.status()).toMatchObject({ used: 10, remaining: 0 });
+    expect(() => quota.consume()).toThrow(QuotaExceededError);
+  });
+});
@@ -0,0 +1,200 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios, { AxiosError, AxiosHeaders, type AxiosResponse } from 'axios';
+
+type SearchProvidersModule = typeof import('../search-providers.js');
+type KeyPoolModule = typeof import('../key-pool.js');
+
+interface RecordedRequest {
+  url: string;
+  params: Record<string, string>;
+}
+
+// Unit tests of the SearxNG provider's request mapping and result handling,
+// with axios.get replaced by a stub answering from canned JSON
+describe('SearxngSearchProvider', () => {
+  let SearxngSearchProvider: SearchProvidersModule['SearxngSearchProvider'];
+  const originalGet = axios.get;
+  let requests: RecordedRequest[];
+  let respond: () => Promise<unknown>;
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ SearxngSearchProvider } = await import('../search-providers.js'));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respond = async () => ({ data: { results: [], number_of_results: 0 } });
+    axios.get = (async (url: string, options: { params: Record<string, string> }) => {
+      requests.push({ url, params: options.params });
+      return respond();
+    }) as typeof axios.get;
+  });
+
+  afterAll(() => {
+    axios.get = originalGet;
+  });
+
+  const provider = () => new SearxngSearchProvider('http://searx.test/');
+
+  function httpError(status: number, data: unknown): AxiosError {
+    const response = { status, statusText: '', data, headers: {}, config: { headers: new AxiosHeaders() } } as AxiosResponse;
+    return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response);
+  }
+
+  it('queries the JSON API on the first page by default', async () => {
+    await provider().search({ query: 'solar' });
+    expect(requests).toEqual([{ url: 'http://searx.test/search', params: { q: 'solar', format: 'json', pageno: '1' } }]);
+  });
+
+  it('derives the page number from the result offset', async () => {
+    await provider().search({ query: 'solar', start: 11 });
+    await provider().search({ query: 'solar', start: 21 });
+    await provider().search({ query: 'solar', start: 15 });
+    expect(requests.map(request => request.params.pageno)).toEqual(['2', '3', '2']);
+  });
+
+  it('maps the safe search setting', async () => {
+    await provider().search({ query: 'solar', safe: 'active' });
+    await provider().search({ query: 'solar', safe: 'off' });
+    expect(requests.map(request => request.params.safesearch)).toEqual(['2', '0']);
+  });
+
+  it('maps date restrictions to the nearest wider time range', async () => {
+    for (const dateRestrict of ['d1', 'd3', 'w2', 'm1', 'm6', 'y1']) {
+      await provider().search({ query: 'solar', dateRestrict });
+    }
+    expect(requests.map(request => request.params.time_range)).toEqual(['day', 'week', 'week', 'month', 'year', 'year']);
+  });
+
+  it('expresses filters without a SearxNG parameter as query operators', async () => {
+    await provider().search({
+      query: 'solar',
+      exactTerms: 'power purchase agreement',
+      excludeTerms: 'rooftop  residential',
+      siteSearch: 'energy.gov',
+      fileType: 'pdf',
+    });
+    expect(requests[0].params.q)
+      .toBe('solar "power purchase agreement" -rooftop -residential site:energy.gov filetype:pdf');
+  });
+
+  it('normalizes results and sorts by date on the client', async () => {
+    respond = async () => ({
+      data: {
+        number_of_results: 42,
+        results: [
+          { title: 'Older', url: 'https://a.example/older', content: 'First', publishedDate: '2024-01-05T00:00:00' },
+          { title: 'Undated', url: 'https://b.example/undated' },
+          { title: 'Newer', url: 'https://c.example/newer', content: 'Third', publishedDate: '2024-03-01T00:00:00' },
+        ],
+      },
+    });
+
+    const response = await provider().search({ query: 'solar', sort: 'date', num: 2 });
+    expect(response).toMatchObject({ provider: 'searxng', totalResults: 42 });
+    expect(response.items).toEqual([
+      { title: 'Newer', link: 'https://c.example/newer', snippet: 'Third', displayLink: 'c.example', publishedAt: '2024-03-01T00:00:00' },
+      { title: 'Older', link: 'https://a.example/older', snippet: 'First', displayLink: 'a.example', publishedAt: '2024-01-05T00:00:00' },
+    ]);
+  });
+
+  it('includes the error the instance returned', async () => {
+    respond = async () => {
+      throw httpError(429, '<html><body><h1>Too Many Requests</h1></body></html>');
+    };
+    await expect(provider().search({ query: 'solar' })).rejects.toThrow('SearxNG search error: HTTP 429: Too Many Requests');
+
+    respond = async () => {
+      throw httpError(400, { error: 'search engine "google" is suspended' });
+    };
+    await expect(provider().search({ query: 'solar' }))
+      .rejects.toThrow('SearxNG search error: HTTP 400: search engine "google" is suspended');
+  });
+});
+
+// Unit tests of which search engine a Google request goes to and is cached
+// under, with keys that carry their own engine ID
+describe('GoogleSearchProvider', () => {
+  let GoogleSearchProvider: SearchProvidersModule['GoogleSearchProvider'];
+  let ApiKeyPool: KeyPoolModule['ApiKeyPool'];
+  const originalGet = axios.get;
+  let stateDir: string;
+  let engines: string[];
+  let respond: (params: Record<string, string>) => Promise<unknown>;
+
+  beforeAll(async () => {
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ GoogleSearchProvider } = await import('../search-providers.js'));
+    ({ ApiKeyPool } = await import('../key-pool.js'));
+  });
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'google-provider-'));
+    engines = [];
+    respond = async () => ({ data: { items: [] } });
+    axios.get = (async (_url: string, options: { params: Record<string, string> }) => {
+      engines.push(options.params.cx);
+      return respond(options.params);
+    }) as typeof axios.get;
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    axios.get = originalGet;
+  });
+
+  // key-a queries its own engine, key-b the default GOOGLE_CSE_ID
+  const pool = () => new ApiKeyPool([{ apiKey: 'key-a', cseId: 'engine-a' }, { apiKey: 'key-b' }], {
+    rotation: 'round-robin',
+    dailyLimit: 10,
+    stateFile: path.join(stateDir, 'quota.json'),
+    cooldownMs: 1000,
+    rateLimitWindowMs: 1000,
+  });
+
+  it('scopes the cache to the engine of the key used', async () => {
+    const provider = new GoogleSearchProvider(pool());
+
+    expect(provider.cacheScope).toBe('google:engine-a');
+    expect((await provider.search({ query: 'solar' })).cacheScope).toBe('google:engine-a');
+    expect(provider.cacheScope).toBe('google:test-cse');
+    expect((await provider.search({ query: 'solar' })).cacheScope).toBe('google:test-cse');
+    expect(engines).toEqual(['engine-a', 'test-cse']);
+  });
+
+  it('reports the engine that answered when a request moved on to another key', async () => {
+    const provider = new GoogleSearchProvider(pool());
+    respond = async params => {
+      if (params.key === 'key-a') {
+        const response = { status: 429, statusText: '', data: {}, headers: {}, config: { headers: new AxiosHeaders() } } as AxiosResponse;
+        throw new AxiosError('Request failed with status code 429', 'ERR_BAD_REQUEST', undefined, undefined, response);
+      }
+      return { data: { items: [] } };
+    };
+
+    expect(provider.cacheScope).toBe('google:engine-a');
+    expect((await provider.search({ query: 'solar' })).cacheScope).toBe('google:test-cse');
+    expect(engines).toEqual(['engine-a', 'test-cse']);
+  });
+
+  it('uses the engine of a CSE profile for every key', async () => {
+    const provider = new GoogleSearchProvider(pool(), 'profile-engine');
+
+    expect(provider.cacheScope).toBe('google:profile-engine');
+    await provider.search({ query: 'solar' });
+    await provider.search({ query: 'solar' });
+    expect(engines).toEqual(['profile-engine', 'profile-engine']);
+  });
+});
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+
+type SettingsModule = typeof import('../settings.js');
+
+// Unit tests of loading the settings file and reloading it when it changes,
+// with the files in a temporary directory
+describe('SettingsStore', () => {
+  let SettingsStore: SettingsModule['SettingsStore'];
+  let SettingsError: SettingsModule['SettingsError'];
+  let loadSettings: SettingsModule['loadSettings'];
+  let settingsDir: string;
+  // Each test writes its files to a directory of its own, since watchers of the
+  // same directory share pending change events
+  let caseDir: string;
+  // The file SETTINGS_FILE points to, which starts out invalid
+  let configuredFile: string;
+  let stores: InstanceType<SettingsModule['SettingsStore']>[];
+
+  beforeAll(async () => {
+    settingsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'settings-'));
+    configuredFile = path.join(settingsDir, 'configured.json');
+    fs.writeFileSync(configuredFile, '{ "credibility": { "default": 2 } }');
+    process.env.GOOGLE_API_KEY = 'test-key';
+    process.env.GOOGLE_CSE_ID = 'test-cse';
+    process.env.SETTINGS_FILE = configuredFile;
+    process.env.LOG_LEVEL = 'silent';
+    // Imported after the environment is prepared, since config is read at load time
+    ({ SettingsStore, SettingsError, loadSettings } = await import('../settings.js'));
+  });
+
+  beforeEach(() => {
+    stores = [];
+    caseDir = fs.mkdtempSync(path.join(settingsDir, 'case-'));
+  });
+
+  afterEach(() => {
+    stores.forEach(store => store.close());
+  });
+
+  afterAll(() => {
+    loadSettings().close();
+    fs.rmSync(settingsDir, { recursive: true, force: true });
+  });
+
+  function writeSettings(name: string, content: string): string {
+    const file = path.join(caseDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  function watched(file: string) {
+    const store = new SettingsStore(file);
+    stores.push(store);
+    let reloads = 0;
+    const reload = store.reload.bind(store);
+    store.reload = () => {
+      reloads++;
+      return reload();
+    };
+    store.watch();
+    return { store, reloads: () => reloads };
+  }
+
+  // Wait for the debounced reload, which runs 200 ms after the last change
+  async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition() && Date.now() < deadline) {
+      await sleep(20);
+    }
+  }
+
+  it('falls back to the built-in defaults for anything the file leaves out', () => {
+    const file = writeSettings('partial.yaml', 'credibility:\n  default: 0.4\n');
+    const { current } = new SettingsStore(file);
+    expect(current.credibility.default).toBe(0.4);
+    expect(current.timeframes).toEqual(new SettingsStore().current.timeframes);
+  });
+
+  it('throws a SettingsError for a file that fails to parse or validate', () => {
+    const unparsable = writeSettings('unparsable.json', '{ "credibility": ');
+    const invalid = writeSettings('invalid.json', '{ "timeframes": { "news_monitor": "y9" } }');
+    expect(() => new SettingsStore(unparsable)).toThrow(SettingsError);
+    expect(() => new SettingsStore(invalid)).toThrow(/timeframes\.news_monitor/);
+  });
+
+  it('leaves the response to an invalid configured file to the caller', () => {
+    expect(() => loadSettings()).toThrow(SettingsError);
+    expect(() => loadSettings().current).toThrow(/credibility\.default/);
+
+    fs.writeFileSync(configuredFile, '{ "credibility": { "default": 0.3 } }');
+    expect(loadSettings().current.credibility.default).toBe(0.3);
+  });
+
+  it('reloads the file once it changes', async () => {
+    const file = writeSettings('reload.json', '{ "credibility": { "default": 0.4 } }');
+    const { store } = watched(file);
+
+    fs.writeFileSync(file, '{ "credibility": { "default": 0.6 } }');
+    await waitFor(() => store.current.credibility.default === 0.6);
+    expect(store.current.credibility.default).toBe(0.6);
+  });
+
+  it('reloads once after a burst of writes', async () => {
+    const file = writeSettings('burst.json', '{ "credibility": { "default": 0.4 } }');
+    const { store, reloads } = watched(file);
+
+    for (const value of [0.5, 0.6, 0.7, 0.8]) {
+      fs.writeFileSync(file, `{ "credibility": { "default": ${value} } }`);
+      await sleep(30);
+    }
+    await waitFor(() => reloads() > 0);
+    await sleep(300);
+    expect(reloads()).toBe(1);
+    expect(store.current.credibility.default).toBe(0.8);
+  });
+
+  it('keeps the last good settings when a reload is invalid', async () => {
+    const file = writeSettings('keep.json', '{ "credibility": { "default": 0.4 } }');
+    const { store, reloads } = watched(file);
+
+    fs.writeFileSync(file, '{ "credibility": { "default": "high" } }');
+    await waitFor(() => reloads() > 0);
+    expect(store.current.credibility.default).toBe(0.4);
+
+    fs.writeFileSync(file, '{ "credibility": { "default": 0.7 } }');
+    await waitFor(() => store.current.credibility.default === 0.7);
+    expect(store.current.credibility.default).toBe(0.7);
+  });
+
+  it('ignores changes to other files in the same directory', async () => {
+    const file = writeSettings('watched.json', '{}');
+    const { reloads } = watched(file);
+
+    writeSettings('neighbour.json', '{ "credibility": { "default": 0.9 } }');
+    await sleep(400);
+    expect(reloads()).toBe(0);
+  });
+});
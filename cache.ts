@@ -0,0 +1,167 @@
+import config from './config.js';
+import { errorFields, logger } from './logger.js';
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+// Minimal interface the Redis tier needs, so the client stays an optional dependency
+interface RedisLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { EX: number }): Promise<unknown>;
+}
+
+// In-process LRU cache with per-entry expiry. Map preserves insertion order,
+// so the first key is always the least recently used one.
+export class LRUCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+
+  constructor(private maxSize: number, private ttlMs: number) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    if (this.maxSize <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxSize) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Two-tier cache: an in-process LRU in front of an optional Redis store.
+// Redis is only used when REDIS_URL is configured; any Redis failure degrades
+// to LRU-only operation instead of failing the tool call.
+export class ResultCache {
+  private lru: LRUCache<unknown>;
+  private redis: Promise<RedisLike | null> | null = null;
+
+  constructor(
+    private options: { maxSize: number; ttlSeconds: number; redisUrl?: string; prefix?: string }
+  ) {
+    this.lru = new LRUCache(options.maxSize, options.ttlSeconds * 1000);
+  }
+
+  // Build a stable cache key for a Custom Search request. The API key is
+  // excluded so rotating credentials does not invalidate cached results.
+  static searchKey(params: Record<string, string>): string {
+    return Object.keys(params)
+      .filter(key => key !== 'key' && params[key] !== undefined && params[key] !== '')
+      .sort()
+      .map(key => `${key}=${String(params[key]).trim()}`)
+      .join('&');
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const fullKey = this.fullKey(namespace, key);
+
+    const cached = this.lru.get(fullKey);
+    if (cached !== undefined) return cached as T;
+
+    const redis = await this.getRedis();
+    if (!redis) return undefined;
+
+    try {
+      const raw = await redis.get(fullKey);
+      if (raw === null) return undefined;
+      const value = JSON.parse(raw) as T;
+      this.lru.set(fullKey, value);
+      return value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(namespace: string, key: string, value: T): Promise<void> {
+    const fullKey = this.fullKey(namespace, key);
+    this.lru.set(fullKey, value);
+
+    const redis = await this.getRedis();
+    if (!redis) return;
+
+    try {
+      await redis.set(fullKey, JSON.stringify(value), { EX: this.options.ttlSeconds });
+    } catch {
+      // Redis is best-effort; the LRU tier already holds the value
+    }
+  }
+
+  // Return the cached value or run the loader and cache its result.
+  // With bypass set the cached value is ignored but the fresh result is still stored.
+  async wrap<T>(namespace: string, key: string, loader: () => Promise<T>, bypass = false): Promise<T> {
+    if (!bypass) {
+      const cached = await this.get<T>(namespace, key);
+      if (cached !== undefined) return cached;
+    }
+
+    const value = await loader();
+    await this.set(namespace, key, value);
+    return value;
+  }
+
+  clear(): void {
+    this.lru.clear();
+  }
+
+  private fullKey(namespace: string, key: string): string {
+    return `${this.options.prefix || 'gsmcp'}:${namespace}:${key}`;
+  }
+
+  private getRedis(): Promise<RedisLike | null> {
+    if (!this.options.redisUrl) return Promise.resolve(null);
+    if (!this.redis) {
+      this.redis = this.connectRedis(this.options.redisUrl);
+    }
+    return this.redis;
+  }
+
+  private async connectRedis(url: string): Promise<RedisLike | null> {
+    try {
+      const { createClient } = await import('redis');
+      const client = createClient({
+        url,
+        socket: { connectTimeout: 2000, reconnectStrategy: false },
+      });
+      client.on('error', () => {
+        // Connection errors surface as failed commands, which are already handled
+      });
+      await client.connect();
+      return client as unknown as RedisLike;
+    } catch (error) {
+      logger.warn('Redis cache unavailable, using in-memory cache only', { redisUrl: url, ...errorFields(error) });
+      return null;
+    }
+  }
+}
+
+export const resultCache = new ResultCache({
+  maxSize: config.LRU_CACHE_SIZE,
+  ttlSeconds: config.CACHE_TTL,
+  redisUrl: config.REDIS_URL,
+});
@@ -0,0 +1,31 @@
+import axios from 'axios';
+
+// Raised when a search or page fetch is abandoned because the tool call was cancelled
+export class CancelledError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Cancelled: ${reason}`);
+    this.name = 'CancelledError';
+  }
+}
+
+// Human-readable reason for an aborted signal. MCP cancellation notifications
+// carry an optional string; anything else falls back to a generic reason.
+export function cancellationReason(signal: AbortSignal): string {
+  return typeof signal.reason === 'string' && signal.reason ? signal.reason : 'Cancelled by client';
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError(cancellationReason(signal));
+  }
+}
+
+// Normalize an error raised while the signal was active: axios aborts become
+// CancelledError so callers only have one type to check for
+export function toCancelledError(error: unknown, signal?: AbortSignal): CancelledError | null {
+  if (error instanceof CancelledError) return error;
+  if (signal?.aborted && axios.isCancel(error)) {
+    return new CancelledError(cancellationReason(signal));
+  }
+  return null;
+}
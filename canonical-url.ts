@@ -0,0 +1,181 @@
+import type { CheerioAPI } from 'cheerio';
+import { registrableDomain } from './credibility.js';
+
+// URL canonicalization, so the same article reached through an AMP link, a
+// tracking-tagged share link, `http` instead of `https` or a `www.`/mobile
+// host variant is recognized as one result.
+
+// Query parameters that only identify the campaign or click that led to a page
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'li_fat_id',
+  'igshid', 'mc_cid', 'mc_eid', 'mkt_tok', '_ga', '_gl', '_hsenc', '_hsmi', 'ref_src', 'ref_url',
+  'ocid', 'cmpid', 'spm', 'smid', 'at_medium', 'at_campaign',
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'hsa_'];
+
+// Parameters that request the AMP rendition of a page, with the values that
+// do so; null matches any value
+const AMP_PARAMS: Record<string, string[] | null> = {
+  amp: ['', '1', 'true'],
+  outputtype: ['amp'],
+  usqp: null,
+};
+
+// Publishers that serve AMP pages under an /amp/ segment inside the path
+// rather than at its end, by registrable domain. Elsewhere such a segment is
+// left alone, since sites like amp.dev use it for ordinary pages.
+const AMP_PATH_PREFIXES: Record<string, string[]> = {
+  'bbc.com': ['/news/amp/', '/sport/amp/'],
+  'cnbc.com': ['/amp/'],
+  'nbcnews.com': ['/news/amp/'],
+  'usatoday.com': ['/amp/'],
+};
+
+// Subdomain labels that serve the same content as the bare domain
+const MIRROR_LABELS = new Set(['www', 'm', 'mobile', 'amp', 'old']);
+
+// Registrable domains that mirror another one under the same paths
+const MIRROR_DOMAINS: Record<string, string> = {
+  'bbc.co.uk': 'bbc.com',
+  'twitter.com': 'x.com',
+  'export.arxiv.org': 'arxiv.org',
+};
+
+export interface SourceRecord {
+  source: string;
+  link: string;
+}
+
+export interface MergeAnnotation {
+  canonicalUrl: string;
+  // Every source that returned this result, with the exact link it returned
+  sources: SourceRecord[];
+}
+
+// Original URL wrapped by Google's AMP viewer or the AMP cache, if any:
+// google.com/amp/s/example.com/a and example-com.cdn.ampproject.org/c/s/example.com/a
+function unwrapAmpCache(url: URL): string | null {
+  const host = url.hostname.toLowerCase();
+  let rest: string | null = null;
+  if (/^(www\.)?google\.[a-z.]+$/.test(host) && url.pathname.startsWith('/amp/')) {
+    rest = url.pathname.slice('/amp/'.length);
+  } else if (host.endsWith('.cdn.ampproject.org')) {
+    rest = url.pathname.replace(/^\/[a-z]\//, '');
+  }
+  if (rest === null) return null;
+
+  const secure = rest.startsWith('s/');
+  return `${secure ? 'https' : 'http'}://${secure ? rest.slice(2) : rest}${url.search}`;
+}
+
+function normalizeHostname(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (MIRROR_DOMAINS[host]) return MIRROR_DOMAINS[host];
+
+  const labels = host.split('.');
+  const domain = registrableDomain(host);
+  const subdomain = labels
+    .slice(0, labels.length - domain.split('.').length)
+    .filter(label => !MIRROR_LABELS.has(label.replace(/\d+$/, '')));
+  return [...subdomain, MIRROR_DOMAINS[domain] || domain].join('.');
+}
+
+function isAmpParam(name: string, value: string): boolean {
+  const values = AMP_PARAMS[name];
+  return values === null || (values !== undefined && values.includes(value.toLowerCase()));
+}
+
+// `host` is the normalized hostname
+function normalizePath(pathname: string, host: string): string {
+  const lower = pathname.toLowerCase();
+  const prefix = (AMP_PATH_PREFIXES[registrableDomain(host)] || []).find(prefix => lower.startsWith(prefix));
+  const path = (prefix ? pathname.slice(0, prefix.length - 'amp/'.length) + pathname.slice(prefix.length) : pathname)
+    // /article/amp, /article/amp/, /article.amp and /article.amp.html
+    .replace(/\/amp\/?$/i, '')
+    .replace(/\.amp(?=(\.html?)?$)/i, '')
+    .replace(/\/+$/, '');
+  return path || '/';
+}
+
+// Canonical form of a URL: https, normalized host, no fragment, no tracking or
+// AMP parameters, remaining parameters sorted and no trailing slash. Values
+// that are not http(s) URLs are returned trimmed but otherwise unchanged.
+export function canonicalizeUrl(value: string): string {
+  const trimmed = value.trim();
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+    const unwrapped = unwrapAmpCache(url);
+    if (unwrapped) url = new URL(unwrapped);
+  } catch {
+    return trimmed;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return trimmed;
+
+  const params = [...url.searchParams.entries()]
+    .filter(([name, value]) => {
+      const key = name.toLowerCase();
+      return !TRACKING_PARAMS.has(key) && !isAmpParam(key, value) && !TRACKING_PREFIXES.some(prefix => key.startsWith(prefix));
+    })
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = new URLSearchParams(params).toString();
+
+  const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+  const host = normalizeHostname(url.hostname);
+  return `https://${host}${port}${normalizePath(url.pathname, host)}${query ? `?${query}` : ''}`;
+}
+
+// Absolute URL a parsed page declares with <link rel="canonical">, or null if
+// it declares none
+export function canonicalLink($: CheerioAPI, pageUrl: string): string | null {
+  const href = $('link[rel]')
+    .filter((_index, element) => ($(element).attr('rel') || '').toLowerCase().split(/\s+/).includes('canonical'))
+    .first()
+    .attr('href');
+  if (!href) return null;
+
+  try {
+    const resolved = new URL(href.trim(), pageUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Merges results that share a canonical URL across the sources of one tool
+// call. The first occurrence is kept, in the order sources are added, and
+// records every source that returned it; later occurrences are dropped.
+export class DuplicateMerger {
+  private seen = new Map<string, SourceRecord[]>();
+  private removed = 0;
+
+  // Record `records` under `canonicalUrl`. Returns the sources list for a
+  // URL seen for the first time, or null when an earlier result holds it.
+  claim(canonicalUrl: string, records: SourceRecord[]): SourceRecord[] | null {
+    const existing = this.seen.get(canonicalUrl);
+    if (existing) {
+      existing.push(...records);
+      this.removed++;
+      return null;
+    }
+    const sources = [...records];
+    this.seen.set(canonicalUrl, sources);
+    return sources;
+  }
+
+  // The items from `source` not already returned, annotated for merging
+  add<T extends { link: string }>(source: string, items: T[]): (T & MergeAnnotation)[] {
+    const kept: (T & MergeAnnotation)[] = [];
+    for (const item of items) {
+      const canonicalUrl = canonicalizeUrl(item.link);
+      const sources = this.claim(canonicalUrl, [{ source, link: item.link }]);
+      if (sources) kept.push({ ...item, canonicalUrl, sources });
+    }
+    return kept;
+  }
+
+  get duplicatesRemoved(): number {
+    return this.removed;
+  }
+}
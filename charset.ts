@@ -0,0 +1,39 @@
+import { isUtf8 } from 'buffer';
+import iconv from 'iconv-lite';
+import { getEncoding } from 'encoding-sniffer';
+
+// Character encoding detection for fetched text, following the HTML
+// standard's order: a byte order mark, then the charset of the Content-Type
+// header, then a <meta charset> or http-equiv declaration (or an XML
+// declaration) near the start of the document. Encodings are reported by
+// their WHATWG names, such as UTF-8, Shift_JIS, GBK or windows-1251.
+
+// Meta declarations are looked for in this many leading bytes. The standard
+// prescans 1024, but long <head> sections push the declaration further.
+const SNIFF_BYTES = 4096;
+
+export interface DecodedText {
+  text: string;
+  encoding: string;
+}
+
+function headerCharset(contentType: string | undefined): string | undefined {
+  return contentType?.match(/;\s*charset\s*=\s*["']?([^"';\s]+)/i)?.[1];
+}
+
+export function detectEncoding(bytes: Buffer, contentType?: string): string {
+  return getEncoding(bytes, {
+    maxBytes: SNIFF_BYTES,
+    transportLayerEncodingLabel: headerCharset(contentType),
+    // Undeclared pages are mostly UTF-8 nowadays; only bytes that are not
+    // valid UTF-8 fall back to the legacy Western default
+    defaultEncoding: isUtf8(bytes) ? 'UTF-8' : 'windows-1252',
+  });
+}
+
+// Decode with the detected encoding; the byte order mark is dropped
+export function decodeText(bytes: Buffer, contentType?: string): DecodedText {
+  const detected = detectEncoding(bytes, contentType);
+  const encoding = iconv.encodingExists(detected) ? detected : 'UTF-8';
+  return { text: iconv.decode(bytes, encoding), encoding };
+}
@@ -0,0 +1,248 @@
+import crypto from 'crypto';
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import type { ContentFormat } from './content-extractor.js';
+
+// Splits extracted content into chunks that a client can read one at a time.
+// Chunks are packed from whole blocks (paragraphs, lists, tables, code blocks,
+// top-level HTML elements), and only a block too long for a chunk of its own
+// is split further: code, lists and tables between lines, prose at sentence
+// ends, then between words. The split only depends on the content, so the
+// same page always yields the same chunks.
+
+// Maximum length of a chunk's content in characters
+export const CHUNK_SIZE = 5000;
+
+export interface ChunkPart {
+  // Index of the block this part comes from
+  block: number;
+  text: string;
+}
+
+export interface Chunk {
+  content: string;
+  parts: ChunkPart[];
+}
+
+// Raised for a cursor that is malformed or was issued for other content
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const FENCE = /^(`{3,}|~{3,})/;
+
+// HTML elements that can be split between their children
+const HTML_CONTAINERS = new Set([
+  'div', 'section', 'article', 'main', 'header', 'figure', 'blockquote', 'details',
+  'ul', 'ol', 'dl', 'li', 'table', 'thead', 'tbody', 'tfoot',
+]);
+
+// Blocks that introduce the ones after them. Plain text has no markup, so a
+// short line without closing punctuation is taken for a heading.
+function isHeading(block: string, format: ContentFormat): boolean {
+  if (format === 'markdown') return /^#{1,6} /.test(block);
+  if (format === 'html') return /^<h[1-6][\s>]/i.test(block);
+  return block.length <= 80 && !/[.!?:;,)"'\]]$/.test(block);
+}
+
+function separator(format: ContentFormat): string {
+  return format === 'html' ? '\n' : '\n\n';
+}
+
+// Markdown blocks, keeping fenced code with blank lines in it together
+function markdownBlocks(content: string): string[] {
+  const blocks: string[] = [];
+  let open: string | null = null;
+  for (const block of content.split(/\n{2,}/)) {
+    if (open) {
+      blocks[blocks.length - 1] += `\n\n${block}`;
+    } else {
+      blocks.push(block);
+    }
+    for (const line of block.split('\n')) {
+      const fence = line.match(FENCE)?.[1];
+      if (!fence) continue;
+      if (!open) open = fence;
+      else if (line.trim() === open) open = null;
+    }
+  }
+  return blocks;
+}
+
+// Top-level HTML elements, each well-formed on its own. An element too long
+// for one chunk is split into copies of itself: a container holding a share
+// of its children each, a <pre> or text-only element a share of its text.
+function htmlBlocks(content: string, size: number): string[] {
+  const $ = cheerio.load(content, null, false);
+
+  const split = (node: AnyNode, limit: number): string[] => {
+    const html = $.html(node);
+    if (node.type !== 'tag' || html.length <= limit) return [html];
+
+    const elements = node.children.filter(child => child.type === 'tag');
+    if (node.name === 'pre' || elements.length === 0) {
+      const text = $(node).text();
+      const room = Math.max(limit - (html.length - text.length), Math.floor(limit / 2));
+      return (node.name === 'pre' ? splitLines(text, room) : splitText(text, room)).map(piece => {
+        const copy = $(node).clone();
+        const code = copy.children('code').first();
+        (code.length ? code : copy).text(piece);
+        return $.html(copy);
+      });
+    }
+    // A paragraph with inline markup stays whole rather than lose it
+    if (!HTML_CONTAINERS.has(node.name)) return [html];
+
+    const shell = $.html($(node).clone().empty());
+    const close = `</${node.name}>`;
+    const open = shell.slice(0, shell.length - close.length);
+    const room = limit - open.length - close.length;
+    const groups: string[] = [];
+    let current = '';
+    for (const child of node.children) {
+      if (child.type === 'text' && !child.data.trim()) continue;
+      for (const piece of split(child, room)) {
+        if (current && current.length + piece.length > room) {
+          groups.push(current);
+          current = '';
+        }
+        current += piece;
+      }
+    }
+    if (current) groups.push(current);
+    return groups.map(group => `${open}${group}${close}`);
+  };
+
+  return $.root().contents().toArray()
+    .filter(node => node.type === 'tag' || (node.type === 'text' && node.data.trim()))
+    .flatMap(node => split(node, size));
+}
+
+function splitBlocks(content: string, format: ContentFormat, size = CHUNK_SIZE): string[] {
+  const blocks = format === 'html' ? htmlBlocks(content, size) : format === 'markdown' ? markdownBlocks(content) : content.split(/\n{2,}/);
+  return blocks.map(block => block.trim()).filter(Boolean);
+}
+
+// Cut text into pieces of at most `size` characters at the latest sentence
+// end, line break or space that fits
+function splitText(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    const window = rest.slice(0, size + 1);
+    const sentenceEnd = Math.max(...[...window.matchAll(/[.!?]["')\]]*\s/g)].map(match => match.index + match[0].length - 1));
+    const cut = [sentenceEnd, window.lastIndexOf('\n'), window.lastIndexOf(' ')].find(index => index > 0) || size;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// Whole lines packed into pieces of at most `size` characters; a single
+// longer line is cut like prose
+function splitLines(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const line of text.split('\n').flatMap(line => (line.length > size ? splitText(line, size) : [line]))) {
+    if (current && current.length + 1 + line.length > size) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// A Markdown block split between its lines. Each piece of a fenced code block
+// is fenced again and each piece of a table repeats the header row.
+function splitMarkdownBlock(block: string, size: number): string[] {
+  const lines = block.split('\n');
+  const fence = lines[0].match(FENCE)?.[1];
+  if (fence && lines.length >= 3 && lines[lines.length - 1].trim() === fence) {
+    const room = size - lines[0].length - fence.length - 2;
+    return splitLines(lines.slice(1, -1).join('\n'), room).map(piece => `${lines[0]}\n${piece}\n${fence}`);
+  }
+  if (lines.length >= 3 && lines[0].startsWith('|') && /^\|(?: *-+ *\|)+$/.test(lines[1])) {
+    const header = `${lines[0]}\n${lines[1]}`;
+    return splitLines(lines.slice(2).join('\n'), size - header.length - 1).map(piece => `${header}\n${piece}`);
+  }
+  return splitLines(block, size);
+}
+
+function splitBlock(block: string, format: ContentFormat, size: number): string[] {
+  if (block.length <= size) return [block];
+  // HTML blocks were already split while parsing, as far as they can be
+  if (format === 'html') return [block];
+  // Lists, tables, quotes and code span several lines; paragraphs are one line
+  if (format === 'markdown' && block.includes('\n')) return splitMarkdownBlock(block, size);
+  return splitText(block, size);
+}
+
+// Pack blocks into chunks of at most `size` characters, in order
+export function chunkBlocks(blocks: string[], format: ContentFormat, size = CHUNK_SIZE): Chunk[] {
+  const joiner = separator(format);
+  const chunks: Chunk[] = [];
+  let parts: ChunkPart[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (parts.length === 0) return;
+    chunks.push({ content: parts.map(part => part.text).join(joiner), parts });
+    parts = [];
+    length = 0;
+  };
+
+  blocks.forEach((block, index) => {
+    for (const text of splitBlock(block, format, size)) {
+      if (parts.length > 0 && length + joiner.length + text.length > size) {
+        // A heading moves on to the next chunk with the text it introduces
+        const last = parts[parts.length - 1];
+        const heading = parts.length > 1 && isHeading(last.text, format) && last.text.length + joiner.length + text.length <= size
+          ? parts.pop()
+          : undefined;
+        flush();
+        if (heading) {
+          parts.push(heading);
+          length = heading.text.length;
+        }
+      }
+      length += (parts.length > 0 ? joiner.length : 0) + text.length;
+      parts.push({ block: index, text });
+    }
+  });
+  flush();
+
+  // Empty content still has one (empty) chunk to return
+  return chunks.length > 0 ? chunks : [{ content: '', parts: [] }];
+}
+
+export function chunkContent(content: string, format: ContentFormat, size = CHUNK_SIZE): Chunk[] {
+  return chunkBlocks(splitBlocks(content, format, size), format, size);
+}
+
+function fingerprint(content: string): string {
+  return crypto.createHash('sha1').update(`${CHUNK_SIZE}:${content}`).digest('hex').slice(0, 12);
+}
+
+// Opaque cursor for chunk `index` of `content`. It carries a fingerprint of
+// the content, so a cursor used after the page changed is refused instead of
+// returning a chunk that does not follow the one read before.
+export function chunkCursor(content: string, index: number): string {
+  return Buffer.from(`${index}:${fingerprint(content)}`).toString('base64url');
+}
+
+export function cursorIndex(cursor: string, content: string): number {
+  const match = Buffer.from(cursor, 'base64url').toString().match(/^(\d+):([0-9a-f]{12})$/);
+  if (!match) {
+    throw new InvalidCursorError('Invalid cursor');
+  }
+  if (match[2] !== fingerprint(content)) {
+    throw new InvalidCursorError('The page changed since this cursor was issued; start again from chunkIndex 0');
+  }
+  return Number(match[1]);
+}
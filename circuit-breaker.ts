@@ -0,0 +1,190 @@
+import axios from 'axios';
+import config from './config.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Raised instead of calling the upstream API while the circuit is open
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: Date) {
+    super(`Search API circuit is open after repeated failures, retry after ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Raised when a call through the breaker exceeds its timeout
+export class CircuitTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Search API call timed out after ${timeoutMs}ms`);
+    this.name = 'CircuitTimeoutError';
+  }
+}
+
+interface CircuitBreakerOptions {
+  timeoutMs: number;
+  errorThresholdPercentage: number;
+  resetTimeoutMs: number;
+  // Number of recent calls the error percentage is computed over
+  windowSize?: number;
+  // Minimum calls in the window before the breaker may trip
+  volumeThreshold?: number;
+  // Decides which errors count as upstream failures; others pass through untracked
+  isFailure?: (error: unknown) => boolean;
+}
+
+// Closed/open/half-open circuit breaker. While closed, outcomes are tracked over
+// a sliding window of recent calls; crossing the error threshold opens the circuit
+// and every call fails fast until the reset timeout lets a single trial call through.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = [];
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private windowSize: number;
+  private volumeThreshold: number;
+
+  constructor(private options: CircuitBreakerOptions) {
+    this.windowSize = options.windowSize || 20;
+    this.volumeThreshold = options.volumeThreshold || 5;
+  }
+
+  // Throw CircuitOpenError if a call would be rejected right now
+  assertCallable(): void {
+    this.checkReset();
+    if (this.state === 'open' || (this.state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.retryAt());
+    }
+  }
+
+  // `fn` gets a signal that aborts when the caller's signal does or when the
+  // call times out, so a timed-out request stops instead of running on
+  async execute<T>(fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.assertCallable();
+
+    const isTrial = this.state === 'half-open';
+    if (isTrial) this.trialInFlight = true;
+
+    try {
+      const result = await this.withTimeout(fn, signal);
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      // A call the caller cancelled says nothing about the upstream
+      const isFailure = !signal?.aborted && (this.options.isFailure ? this.options.isFailure(error) : true);
+      if (isFailure) {
+        this.recordFailure();
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  snapshot() {
+    this.checkReset();
+    const failures = this.outcomes.filter(ok => !ok).length;
+    return {
+      state: this.state,
+      recentCalls: this.outcomes.length,
+      recentFailures: failures,
+      errorPercentage: this.outcomes.length > 0 ? Math.round((failures / this.outcomes.length) * 100) : 0,
+      retryAt: this.state === 'closed' ? null : this.retryAt().toISOString(),
+    };
+  }
+
+  get currentState(): CircuitState {
+    this.checkReset();
+    return this.state;
+  }
+
+  private recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.close();
+      return;
+    }
+    this.record(true);
+  }
+
+  private recordFailure(): void {
+    if (this.state === 'half-open') {
+      this.open();
+      return;
+    }
+
+    this.record(false);
+    const failures = this.outcomes.filter(ok => !ok).length;
+    const errorPercentage = (failures / this.outcomes.length) * 100;
+    if (this.outcomes.length >= this.volumeThreshold && errorPercentage >= this.options.errorThresholdPercentage) {
+      this.open();
+    }
+  }
+
+  private record(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.openedAt = null;
+    this.outcomes = [];
+  }
+
+  private checkReset(): void {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+  }
+
+  private retryAt(): Date {
+    return new Date((this.openedAt || Date.now()) + this.options.resetTimeoutMs);
+  }
+
+  private async withTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const forward = () => controller.abort(signal?.reason);
+    if (signal?.aborted) forward();
+    else signal?.addEventListener('abort', forward, { once: true });
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Rejected before aborting, so the timeout wins over the abort error
+        const error = new CircuitTimeoutError(this.options.timeoutMs);
+        reject(error);
+        controller.abort(error);
+      }, this.options.timeoutMs);
+    });
+    try {
+      return await Promise.race([fn(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forward);
+    }
+  }
+}
+
+// Only timeouts, network errors and 5xx responses count against the Custom Search
+// API; client errors, locally rejected calls (rate limit, quota) and requests
+// aborted by a cancelled tool call do not.
+export function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof CircuitTimeoutError) return true;
+  if (axios.isCancel(error)) return false;
+  if (axios.isAxiosError(error)) {
+    return !error.response || error.response.status >= 500;
+  }
+  return false;
+}
+
+export const searchBreaker = new CircuitBreaker({
+  timeoutMs: config.CB_TIMEOUT_MS,
+  errorThresholdPercentage: config.CB_ERROR_THRESHOLD,
+  resetTimeoutMs: config.CB_RESET_TIMEOUT_MS,
+  isFailure: isUpstreamFailure,
+});
@@ -0,0 +1,126 @@
+import config from './config.js';
+import { CancelledError, cancellationReason, throwIfCancelled } from './cancellation.js';
+
+// Run fn over items with at most `limit` calls in flight. Results keep the
+// order of the input, regardless of which calls finish first.
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+// Like Promise.allSettled, but with bounded concurrency and input ordering.
+// Once the signal aborts, items that have not started are rejected with a
+// CancelledError instead of being run.
+export function allSettledWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<R>[]> {
+  return mapWithConcurrency(items, limit, async (item, index): Promise<PromiseSettledResult<R>> => {
+    try {
+      throwIfCancelled(signal);
+      return { status: 'fulfilled', value: await fn(item, index) };
+    } catch (reason) {
+      return { status: 'rejected', reason };
+    }
+  });
+}
+
+interface Waiter {
+  resolve: () => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+// Limits how many calls run at once per key, e.g. page fetches per host. A
+// queued caller whose tool call is cancelled leaves the queue with a
+// CancelledError instead of waiting for a slot.
+export class KeyedLimiter {
+  private active = new Map<string, number>();
+  private waiting = new Map<string, Waiter[]>();
+
+  constructor(private limitPerKey: number) {}
+
+  async run<T>(key: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(key, signal);
+    try {
+      return await fn();
+    } finally {
+      this.release(key);
+    }
+  }
+
+  private acquire(key: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError(cancellationReason(signal)));
+        return;
+      }
+
+      const active = this.active.get(key) || 0;
+      if (active < this.limitPerKey) {
+        this.active.set(key, active + 1);
+        resolve();
+        return;
+      }
+
+      const waiter: Waiter = { resolve, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.removeWaiter(key, waiter);
+          reject(new CancelledError(cancellationReason(signal)));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      const queue = this.waiting.get(key) || [];
+      queue.push(waiter);
+      this.waiting.set(key, queue);
+    });
+  }
+
+  private release(key: string): void {
+    const queue = this.waiting.get(key);
+    const next = queue?.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      if (queue && queue.length === 0) this.waiting.delete(key);
+      if (next.onAbort) next.signal?.removeEventListener('abort', next.onAbort);
+      next.resolve();
+      return;
+    }
+
+    const active = (this.active.get(key) || 1) - 1;
+    if (active === 0) {
+      this.active.delete(key);
+    } else {
+      this.active.set(key, active);
+    }
+  }
+
+  private removeWaiter(key: string, waiter: Waiter): void {
+    const queue = (this.waiting.get(key) || []).filter(other => other !== waiter);
+    if (queue.length === 0) {
+      this.waiting.delete(key);
+    } else {
+      this.waiting.set(key, queue);
+    }
+  }
+}
+
+export const hostLimiter = new KeyedLimiter(config.FETCH_CONCURRENCY_PER_HOST);
@@ -3,19 +3,118 @@ import { z } from 'zod';
 
 dotenv.config();
 
+// One Custom Search API key, optionally bound to its own search engine ID
+export interface ApiKeyEntry {
+  apiKey: string;
+  cseId?: string;
+}
+
+// Parse "key1:cseId1,key2,key3:cseId3". API keys never contain a colon, while
+// older CSE IDs do, so only the first colon separates the two.
+function parseKeyList(value: string | undefined): ApiKeyEntry[] {
+  if (!value) return [];
+  return value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+    const separator = item.indexOf(':');
+    if (separator === -1) return { apiKey: item };
+    return { apiKey: item.slice(0, separator), cseId: item.slice(separator + 1) || undefined };
+  });
+}
+
+// Parse "news=cseId1,academic=cseId2" into a profile name -> CSE ID map
+function parseProfiles(value: string | undefined): Record<string, string> {
+  const profiles: Record<string, string> = {};
+  if (!value) return profiles;
+  for (const item of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = item.indexOf('=');
+    if (separator > 0) {
+      profiles[item.slice(0, separator).trim()] = item.slice(separator + 1).trim();
+    }
+  }
+  return profiles;
+}
+
+export const LOG_LEVELS = ['silent', 'error', 'warn', 'info', 'debug'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// Names other loggers use for the same levels
+const LOG_LEVEL_ALIASES: Record<string, LogLevel> = {
+  none: 'silent',
+  off: 'silent',
+  fatal: 'error',
+  critical: 'error',
+  warning: 'warn',
+  verbose: 'debug',
+  trace: 'debug',
+};
+
+// Levels are matched case-insensitively. An unknown level falls back to info
+// with a warning instead of stopping the server over its log verbosity.
+function parseLogLevel(value: string | undefined): LogLevel {
+  if (!value) return 'info';
+  const name = value.trim().toLowerCase();
+  const level = LOG_LEVELS.find(level => level === name) || LOG_LEVEL_ALIASES[name];
+  if (level) return level;
+  console.error(`⚠️ Unknown LOG_LEVEL "${value}", using "info"`);
+  return 'info';
+}
+
 const envSchema = z.object({
-  GOOGLE_API_KEY: z.string().nonempty(),
-  GOOGLE_CSE_ID: z.string().nonempty(),
+  GOOGLE_API_KEY: z.string().nonempty().optional(),
+  GOOGLE_CSE_ID: z.string().nonempty().optional(),
+  GOOGLE_API_KEYS: z.string().optional().transform(parseKeyList),
+  GOOGLE_CSE_PROFILES: z.string().optional().transform(parseProfiles),
+  KEY_ROTATION: z.enum(['round-robin', 'failover']).default('round-robin'),
+  KEY_COOLDOWN_MS: z.coerce.number().default(300000),
+  SEARCH_PROVIDER: z.enum(['google', 'searxng']).default('google'),
+  SEARXNG_URL: z.string().url().optional(),
   PORT: z.coerce.number().default(3000),
-  REDIS_URL: z.string().url().default('redis://localhost:6379'),
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  HEALTH_TOKEN: z.string().nonempty().optional(),
+  REDIS_URL: z.string().url().optional(),
   CACHE_TTL: z.coerce.number().default(3600),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60000),
   RATE_LIMIT_MAX: z.coerce.number().default(30),
+  DAILY_QUOTA: z.coerce.number().default(100),
+  QUOTA_STATE_FILE: z.string().optional(),
   CB_TIMEOUT_MS: z.coerce.number().default(5000),
   CB_ERROR_THRESHOLD: z.coerce.number().default(50),
   CB_RESET_TIMEOUT_MS: z.coerce.number().default(30000),
   LRU_CACHE_SIZE: z.coerce.number().default(500),
-  LOG_LEVEL: z.string().default('info'),
+  LOG_LEVEL: z.string().optional().transform(parseLogLevel),
+  FIXTURE_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  FIXTURE_DIR: z.string().default('fixtures'),
+  MAX_CONCURRENCY: z.coerce.number().int().min(1).max(10).default(4),
+  FETCH_CONCURRENCY_PER_HOST: z.coerce.number().int().min(1).default(2),
+  SETTINGS_FILE: z.string().optional(),
+  RESULT_STORE_SIZE: z.coerce.number().int().min(0).default(200),
+}).superRefine((env, ctx) => {
+  // Replay mode serves recorded responses, so no backend credentials are needed
+  if (env.FIXTURE_MODE === 'replay') return;
+  if (env.SEARCH_PROVIDER === 'google' && !env.GOOGLE_API_KEY && env.GOOGLE_API_KEYS.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['GOOGLE_API_KEY'],
+      message: 'GOOGLE_API_KEY or GOOGLE_API_KEYS is required when SEARCH_PROVIDER is "google"',
+    });
+  }
+  const keysWithoutEngine = [
+    ...(env.GOOGLE_API_KEY ? [{ apiKey: env.GOOGLE_API_KEY }] : []),
+    ...env.GOOGLE_API_KEYS,
+  ].filter(entry => !entry.cseId && !env.GOOGLE_CSE_ID);
+  if (keysWithoutEngine.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['GOOGLE_CSE_ID'],
+      message: 'GOOGLE_CSE_ID is required unless every entry in GOOGLE_API_KEYS has its own CSE ID',
+    });
+  }
+  if (env.SEARCH_PROVIDER === 'searxng' && !env.SEARXNG_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['SEARXNG_URL'],
+      message: 'SEARXNG_URL is required when SEARCH_PROVIDER is "searxng"',
+    });
+  }
 });
 
 const result = envSchema.safeParse(process.env);
@@ -27,16 +126,36 @@ if (!result.success) {
 const config = {
   GOOGLE_API_KEY: result.data.GOOGLE_API_KEY,
   GOOGLE_CSE_ID: result.data.GOOGLE_CSE_ID,
+  // GOOGLE_API_KEY, when set, is the first entry of the pool
+  GOOGLE_API_KEYS: [
+    ...(result.data.GOOGLE_API_KEY ? [{ apiKey: result.data.GOOGLE_API_KEY }] : []),
+    ...result.data.GOOGLE_API_KEYS,
+  ] as ApiKeyEntry[],
+  GOOGLE_CSE_PROFILES: result.data.GOOGLE_CSE_PROFILES,
+  KEY_ROTATION: result.data.KEY_ROTATION,
+  KEY_COOLDOWN_MS: result.data.KEY_COOLDOWN_MS,
+  SEARCH_PROVIDER: result.data.SEARCH_PROVIDER,
+  SEARXNG_URL: result.data.SEARXNG_URL,
   PORT: result.data.PORT,
+  MCP_TRANSPORT: result.data.MCP_TRANSPORT,
+  HEALTH_TOKEN: result.data.HEALTH_TOKEN,
   REDIS_URL: result.data.REDIS_URL,
   CACHE_TTL: result.data.CACHE_TTL,
   RATE_LIMIT_WINDOW_MS: result.data.RATE_LIMIT_WINDOW_MS,
   RATE_LIMIT_MAX: result.data.RATE_LIMIT_MAX,
+  DAILY_QUOTA: result.data.DAILY_QUOTA,
+  QUOTA_STATE_FILE: result.data.QUOTA_STATE_FILE,
   CB_TIMEOUT_MS: result.data.CB_TIMEOUT_MS,
   CB_ERROR_THRESHOLD: result.data.CB_ERROR_THRESHOLD,
   CB_RESET_TIMEOUT_MS: result.data.CB_RESET_TIMEOUT_MS,
   LRU_CACHE_SIZE: result.data.LRU_CACHE_SIZE,
   LOG_LEVEL: result.data.LOG_LEVEL,
+  FIXTURE_MODE: result.data.FIXTURE_MODE,
+  FIXTURE_DIR: result.data.FIXTURE_DIR,
+  MAX_CONCURRENCY: result.data.MAX_CONCURRENCY,
+  FETCH_CONCURRENCY_PER_HOST: result.data.FETCH_CONCURRENCY_PER_HOST,
+  SETTINGS_FILE: result.data.SETTINGS_FILE,
+  RESULT_STORE_SIZE: result.data.RESULT_STORE_SIZE,
 };
 
 export default config;
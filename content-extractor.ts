@@ -0,0 +1,284 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { resolveUrl, toMarkdown } from './html-to-markdown.js';
+
+// Readability-style main content extraction. Boilerplate elements are removed,
+// the remaining containers are scored by how much paragraph text they hold and
+// how little of it is link text, and the best one is flattened into
+// paragraphs. Every tool that reads a page goes through extractMainContent().
+
+export const CONTENT_FORMATS = ['text', 'markdown', 'html'] as const;
+export type ContentFormat = typeof CONTENT_FORMATS[number];
+
+export interface ExtractOptions {
+  format?: ContentFormat;
+  // Address of the page, to resolve relative links in markdown and html output
+  url?: string;
+}
+
+export interface MainContent {
+  title: string;
+  // The main content in the requested format
+  content: string;
+  // Plain-text paragraphs of the main content, separated by blank lines, for
+  // analysis whatever the format
+  text: string;
+  paragraphs: string[];
+}
+
+// Attributes kept in html output; everything else (classes, styles, event
+// handlers, data attributes) is dropped
+const HTML_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+  ol: ['start'],
+  code: ['class'],
+  pre: ['class'],
+};
+
+// Never part of the readable content
+const BOILERPLATE_TAGS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'button', 'input', 'select', 'textarea', 'nav', 'footer', 'aside', 'dialog',
+].join(',');
+
+const BOILERPLATE_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'alertdialog', 'menu'];
+
+// Class and id hints, after Readability's candidate patterns
+const UNLIKELY = /cookie|consent|gdpr|banner|advert|\bads?\b|sponsor|promo|newsletter|subscribe|signup|social|share|sharing|comment|related|recommend|sidebar|breadcrumb|popup|modal|overlay|masthead|menu|navbar|\bnav\b|footer|header|skip-link/i;
+const LIKELY = /article|content|main|body|post|entry|story|text|prose|markdown|column/i;
+const POSITIVE = /article|body|content|entry|main|page|post|text|blog|story|prose|markdown/i;
+const NEGATIVE = /comment|meta|footer|footnote|sidebar|widget|related|promo|share|social|tag|byline-list|pagination/i;
+
+// Elements that start a new paragraph
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'pre', 'blockquote', 'figure', 'figcaption',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption', 'hr', 'br', 'address', 'details', 'summary',
+]);
+
+// Elements whose text is scored as a paragraph
+const PARAGRAPH_SELECTOR = 'p, pre, blockquote, td, li, dd, h2, h3';
+
+// Containers shorter than this are not trusted as the main content
+const MIN_CONTENT_LENGTH = 140;
+
+// Paragraphs with more link text than this share are navigation, unless long
+const MAX_PARAGRAPH_LINK_DENSITY = 0.5;
+
+// Forms with a control for every this many characters of text are search
+// boxes, logins and sign-up forms rather than content
+const FORM_CHARS_PER_CONTROL = 40;
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function classWeight(element: Element): number {
+  const hint = `${element.attribs.class || ''} ${element.attribs.id || ''}`;
+  let weight = 0;
+  if (POSITIVE.test(hint)) weight += 25;
+  if (NEGATIVE.test(hint)) weight -= 25;
+  return weight;
+}
+
+function linkDensity($: cheerio.CheerioAPI, element: AnyNode): number {
+  const textLength = normalizeWhitespace($(element).text()).length;
+  if (textLength === 0) return 0;
+  const linkLength = $(element).find('a').toArray().reduce((sum, link) => sum + normalizeWhitespace($(link).text()).length, 0);
+  return linkLength / textLength;
+}
+
+// Forms are only boilerplate when they hold little text, mostly links or
+// mostly controls. ASP.NET WebForms pages wrap the whole body in one form,
+// which has to be kept.
+function removeBoilerplateForms($: cheerio.CheerioAPI): void {
+  $('form').each((_index, form) => {
+    const textLength = normalizeWhitespace($(form).text()).length;
+    const controls = $(form).find('input:not([type="hidden"]), select, textarea, button').length;
+    if (
+      textLength < MIN_CONTENT_LENGTH
+      || controls * FORM_CHARS_PER_CONTROL > textLength
+      || linkDensity($, form) > MAX_PARAGRAPH_LINK_DENSITY
+    ) {
+      $(form).remove();
+    }
+  });
+}
+
+function removeBoilerplate($: cheerio.CheerioAPI): void {
+  // Before the controls are removed, since forms are judged by them
+  removeBoilerplateForms($);
+  $(BOILERPLATE_TAGS).remove();
+  $('[hidden], [aria-hidden="true"], [aria-modal="true"]').remove();
+  $(BOILERPLATE_ROLES.map(role => `[role="${role}"]`).join(',')).remove();
+  // A page header outside the article is site chrome; one inside it may hold the headline
+  $('body > header, body > div > header').remove();
+
+  $('[class], [id]').each((_index, element) => {
+    if (element.type !== 'tag' || ['html', 'body', 'main', 'article'].includes(element.name)) return;
+    const hint = `${element.attribs.class || ''} ${element.attribs.id || ''}`;
+    if (UNLIKELY.test(hint) && !LIKELY.test(hint)) {
+      $(element).remove();
+    }
+  });
+}
+
+// The container with the highest content score. Each paragraph adds a score
+// based on its length and commas to its parent and half of it to its
+// grandparent; containers are then penalized by their link density.
+function findMainContainer($: cheerio.CheerioAPI): cheerio.Cheerio<AnyNode> {
+  const scores = new Map<Element, number>();
+  const addScore = (element: Element | null, score: number) => {
+    if (!element || element.type !== 'tag') return;
+    if (!scores.has(element)) {
+      const tagBonus = element.name === 'article' || element.name === 'main' ? 10 : 0;
+      scores.set(element, tagBonus + classWeight(element));
+    }
+    scores.set(element, (scores.get(element) || 0) + score);
+  };
+
+  $(PARAGRAPH_SELECTOR).each((_index, paragraph) => {
+    const text = normalizeWhitespace($(paragraph).text());
+    if (text.length < 25) return;
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parent as Element | null;
+    addScore(parent, score);
+    addScore(parent?.parent as Element | null, score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  if (best && normalizeWhitespace($(best).text()).length >= MIN_CONTENT_LENGTH) {
+    // Content split over sibling containers (e.g. one section per heading)
+    // is kept whole, in document order. Siblings sharing the best
+    // container's class are most likely further parts of it.
+    const top = best;
+    const threshold = bestScore * 0.2;
+    const qualifies = (sibling: AnyNode) => {
+      const score = scores.get(sibling as Element);
+      if (score === undefined) return false;
+      const sameClass = top.attribs.class && (sibling as Element).attribs.class === top.attribs.class ? threshold : 0;
+      return score * (1 - linkDensity($, sibling)) + sameClass >= threshold;
+    };
+    const siblings = top.parent ? $(top.parent).children().toArray().filter(sibling => sibling === top || qualifies(sibling)) : [top];
+    return $(siblings);
+  }
+
+  const fallback = $('main').first().length ? $('main').first() : $('article').first();
+  return fallback.length ? fallback : $('body');
+}
+
+// Flatten an element into paragraphs, breaking at block-level elements and
+// dropping blocks that are mostly links
+function collectParagraphs($: cheerio.CheerioAPI, root: cheerio.Cheerio<AnyNode>): string[] {
+  const paragraphs: string[] = [];
+  let buffer = '';
+  let linkText = 0;
+
+  const flush = () => {
+    const text = normalizeWhitespace(buffer);
+    const density = text.length > 0 ? linkText / text.length : 0;
+    if (text && (density <= MAX_PARAGRAPH_LINK_DENSITY || text.length > 200)) {
+      paragraphs.push(text);
+    }
+    buffer = '';
+    linkText = 0;
+  };
+
+  const walk = (node: AnyNode, inLink: boolean) => {
+    if (node.type === 'text') {
+      buffer += node.data;
+      if (inLink) linkText += normalizeWhitespace(node.data).length;
+      return;
+    }
+    if (node.type !== 'tag') return;
+
+    const block = BLOCK_TAGS.has(node.name);
+    if (block) flush();
+    for (const child of node.children) {
+      walk(child, inLink || node.name === 'a');
+    }
+    if (block) flush();
+  };
+
+  root.each((_index, node) => walk(node, false));
+  flush();
+  return paragraphs;
+}
+
+// The main content as HTML, without presentational attributes and with links
+// made absolute; links and images with unsafe schemes lose their URL
+function cleanHtml($: cheerio.CheerioAPI, roots: cheerio.Cheerio<AnyNode>, url?: string): string {
+  return roots.toArray().map(root => {
+    const copy = $(root).clone();
+    copy.find('*').addBack().each((_index, element) => {
+      if (element.type !== 'tag') return;
+      const allowed = HTML_ATTRIBUTES[element.name] || [];
+      for (const name of Object.keys(element.attribs)) {
+        if (!allowed.includes(name)) delete element.attribs[name];
+      }
+      for (const name of ['href', 'src']) {
+        const value = element.attribs[name];
+        if (value === undefined) continue;
+        const resolved = resolveUrl(value, url);
+        if (resolved) {
+          element.attribs[name] = resolved;
+        } else {
+          delete element.attribs[name];
+        }
+      }
+    });
+    return $.html(copy);
+  }).join('\n');
+}
+
+// Takes the HTML or an already parsed page, which is modified in place
+export function extractMainContent(html: string | cheerio.CheerioAPI, { format = 'text', url }: ExtractOptions = {}): MainContent {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+  const title = normalizeWhitespace($('title').first().text()) || normalizeWhitespace($('h1').first().text());
+
+  removeBoilerplate($);
+  const roots = findMainContainer($);
+  const paragraphs = collectParagraphs($, roots);
+  const text = paragraphs.join('\n\n');
+
+  const content = format === 'markdown' ? toMarkdown($, roots, url) : format === 'html' ? cleanHtml($, roots, url) : text;
+  return { title, content, text, paragraphs };
+}
+
+// Plain text of content stored in another format, for analysing a page read
+// back from the result store
+export function toPlainText(content: string, format: ContentFormat): string {
+  if (format === 'html') {
+    const $ = cheerio.load(content);
+    return collectParagraphs($, $('body')).join('\n\n');
+  }
+  if (format === 'markdown') {
+    return content
+      .replace(/^(`{3,})[^\n]*\n([\s\S]*?)\n\1$/gm, '$2')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/^#{1,6} +/gm, '')
+      .replace(/^\s*(?:[-*]|\d+\.) +/gm, '')
+      .replace(/^> ?/gm, '')
+      .replace(/^\|(?: *-+ *\|)+$/gm, '')
+      .replace(/^\| *| *\|$/gm, '')
+      .replace(/ +\| +/g, ' ')
+      .replace(/\\\|/g, '|')
+      .replace(/(\*\*|\*|`+)(\S(?:.*?\S)?)\1/g, '$2')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+  return content;
+}
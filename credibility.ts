@@ -0,0 +1,174 @@
+import { Settings, settings } from './settings.js';
+
+// Source credibility scoring. Scores are looked up for the host a result was
+// actually served from, walking up through its parent domains, so
+// `news.bbc.com` and `www.snopes.com` inherit the score of their registrable
+// domain. Hosts with no entry fall back to their domain class (.gov, .edu,
+// .int, ...), then to the research category they were found under, then to
+// the configured default.
+
+type CredibilitySettings = Settings['credibility'];
+
+// Built-in scores by domain; `credibility.overrides` in the settings file
+// replaces individual entries and adds new ones
+export const DEFAULT_CREDIBILITY_SCORES: Record<string, number> = {
+  'wikipedia.org': 0.8,
+  'bbc.com': 0.9,
+  'bbc.co.uk': 0.9,
+  'reuters.com': 0.9,
+  'ap.org': 0.9,
+  'apnews.com': 0.9,
+  'factcheck.org': 0.95,
+  'snopes.com': 0.9,
+  'politifact.com': 0.9,
+  'scholar.google.com': 0.95,
+  'pubmed.ncbi.nlm.nih.gov': 0.95,
+  'nature.com': 0.9,
+  'science.org': 0.9,
+  'nejm.org': 0.95,
+  'who.int': 0.9,
+  'cdc.gov': 0.9,
+  'nih.gov': 0.9,
+};
+
+// Built-in defaults for hosts found under a research category but not scored
+// by domain; `credibility.categories` overrides them
+export const DEFAULT_CATEGORY_SCORES: Record<string, number> = {
+  'Academic Journals': 0.8,
+  'Academic': 0.8,
+  'Scientific': 0.8,
+  'Government': 0.8,
+  'Fact Checkers': 0.8,
+  'News Sources': 0.7,
+  'News': 0.7,
+  'International': 0.7,
+  'Research': 0.65,
+  'Specialized': 0.65,
+  'Educational': 0.65,
+  'Reference': 0.65,
+};
+
+// Public suffixes and second-level domains whose hosts belong to a class of
+// institution rather than a single organisation
+const DOMAIN_CLASSES: Record<string, { label: string; score: number }> = {
+  'gov': { label: 'government', score: 0.85 },
+  'mil': { label: 'military', score: 0.8 },
+  'int': { label: 'intergovernmental organisation', score: 0.85 },
+  'edu': { label: 'educational institution', score: 0.8 },
+  'gov.uk': { label: 'government', score: 0.85 },
+  'nhs.uk': { label: 'government', score: 0.85 },
+  'gov.au': { label: 'government', score: 0.85 },
+  'gov.in': { label: 'government', score: 0.85 },
+  'gov.br': { label: 'government', score: 0.85 },
+  'gov.za': { label: 'government', score: 0.85 },
+  'go.jp': { label: 'government', score: 0.85 },
+  'govt.nz': { label: 'government', score: 0.85 },
+  'europa.eu': { label: 'intergovernmental organisation', score: 0.85 },
+  'ac.uk': { label: 'educational institution', score: 0.8 },
+  'edu.au': { label: 'educational institution', score: 0.8 },
+  'ac.jp': { label: 'educational institution', score: 0.8 },
+  'ac.nz': { label: 'educational institution', score: 0.8 },
+  'ac.in': { label: 'educational institution', score: 0.8 },
+  'ac.za': { label: 'educational institution', score: 0.8 },
+  'edu.cn': { label: 'educational institution', score: 0.8 },
+};
+
+// Multi-label public suffixes, so `www.bbc.co.uk` resolves to `bbc.co.uk`
+// rather than `co.uk`. Not the full Public Suffix List, just the common ones.
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'nhs.uk', 'ltd.uk', 'plc.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au',
+  'co.nz', 'org.nz', 'ac.nz', 'govt.nz',
+  'co.jp', 'ne.jp', 'or.jp', 'ac.jp', 'go.jp',
+  'co.in', 'org.in', 'ac.in', 'gov.in',
+  'com.br', 'org.br', 'gov.br',
+  'com.cn', 'org.cn', 'edu.cn', 'gov.cn',
+  'co.za', 'org.za', 'ac.za', 'gov.za',
+  'co.kr', 'com.mx', 'com.sg', 'com.hk',
+]);
+
+// Score tables are plain objects, so only their own entries count; `constructor`
+// or `__proto__` must not match what every object inherits
+function ownEntry<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+export interface CredibilityAssessment {
+  score: number;
+  // Registrable domain of the scored host, or null if it could not be parsed
+  domain: string | null;
+  reason: string;
+}
+
+// Lowercased host without `www.` or a trailing dot, from a URL, a bare host
+// such as a `displayLink`, or a suffix such as `gov`
+export function normalizeHost(target: string): string | null {
+  const trimmed = target.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`);
+    const host = url.hostname.toLowerCase().replace(/\.$/, '').replace(/^www\d*\./, '');
+    return host || null;
+  } catch {
+    return null;
+  }
+}
+
+// Host plus every parent domain, most specific first:
+// news.bbc.co.uk -> news.bbc.co.uk, bbc.co.uk, co.uk, uk
+function domainChain(host: string): string[] {
+  const labels = host.split('.');
+  return labels.map((_label, index) => labels.slice(index).join('.'));
+}
+
+export function registrableDomain(host: string): string {
+  const labels = host.split('.');
+  if (labels.length <= 2) return host;
+  const suffixLength = MULTI_LABEL_SUFFIXES.has(labels.slice(-2).join('.')) ? 2 : 1;
+  return labels.slice(-(suffixLength + 1)).join('.');
+}
+
+export class CredibilityEngine {
+  constructor(private getSettings: () => CredibilitySettings) {}
+
+  // Score the host a result was served from. `category` is the research
+  // category the result was found under, if any.
+  assess(target: string, category?: string): CredibilityAssessment {
+    const { default: defaultScore, overrides, categories } = this.getSettings();
+    const host = normalizeHost(target);
+    if (!host) {
+      return { score: defaultScore, domain: null, reason: 'Unrecognized source, using the default score' };
+    }
+
+    const domain = registrableDomain(host);
+    const chain = domainChain(host);
+    const via = (match: string) => (match === host ? '' : ` (matched ${host})`);
+
+    const override = chain.find(candidate => ownEntry(overrides, candidate) !== undefined);
+    if (override) {
+      return { score: overrides[override], domain, reason: `Deployment override for ${override}${via(override)}` };
+    }
+
+    const known = chain.find(candidate => ownEntry(DEFAULT_CREDIBILITY_SCORES, candidate) !== undefined);
+    if (known) {
+      return { score: DEFAULT_CREDIBILITY_SCORES[known], domain, reason: `Known source ${known}${via(known)}` };
+    }
+
+    const domainClass = chain.find(candidate => ownEntry(DOMAIN_CLASSES, candidate));
+    if (domainClass) {
+      const { label, score } = DOMAIN_CLASSES[domainClass];
+      return { score, domain, reason: `${label[0].toUpperCase()}${label.slice(1)} domain (.${domainClass})` };
+    }
+
+    const categoryScore = category !== undefined
+      ? ownEntry(categories, category) ?? ownEntry(DEFAULT_CATEGORY_SCORES, category)
+      : undefined;
+    if (categoryScore !== undefined) {
+      return { score: categoryScore, domain, reason: `Unscored domain ${domain}, using the "${category}" category default` };
+    }
+
+    return { score: defaultScore, domain, reason: `Unscored domain ${domain}, using the default score` };
+  }
+}
+
+export const credibilityEngine = new CredibilityEngine(() => settings.current.credibility);
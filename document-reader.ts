@@ -0,0 +1,116 @@
+import * as cheerio from 'cheerio';
+import { canonicalizeUrl } from './canonical-url.js';
+import { decodeText } from './charset.js';
+import { ContentFormat, MainContent, extractMainContent } from './content-extractor.js';
+import { PageMetadata, extractMetadata, pdfPageMetadata } from './page-metadata.js';
+import { PdfDocument, extractPdf, isPdf } from './pdf-extractor.js';
+
+// Turns a fetched response into readable content according to what it is:
+// HTML goes through the main content extractor and PDF through the PDF text
+// extractor. Anything else is refused instead of being parsed as HTML.
+
+export const DOCUMENT_TYPES = ['html', 'pdf'] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+// A fetched response as cached and recorded. Binary bodies, and text in an
+// encoding other than UTF-8, are kept base64 encoded so they survive the
+// JSON-based cache and fixture files; text is decoded when it is read.
+export interface FetchedPage {
+  url: string;
+  contentType?: string;
+  body: string;
+  encoding?: 'base64';
+}
+
+export interface ReadDocument extends MainContent {
+  type: DocumentType;
+  // Character encoding an HTML page was decoded from
+  encoding?: string;
+  canonicalUrl: string;
+  metadata: PageMetadata;
+  pdf?: PdfDocument;
+}
+
+// Raised for responses that are neither HTML nor PDF, such as images or archives
+export class UnsupportedContentTypeError extends Error {
+  constructor(public readonly contentType: string, url: string) {
+    super(`Unsupported content type ${contentType} for ${url}`);
+    this.name = 'UnsupportedContentTypeError';
+  }
+}
+
+// Text-based types that are read as HTML, as every page was before types were checked
+const TEXT_TYPE = /^text\/|[+/](?:html|xml|json)$/;
+
+function mediaType(contentType: string | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+// The response as stored in the cache, refusing types that cannot be read
+export function toFetchedPage(url: string, contentType: string | undefined, bytes: Buffer): FetchedPage {
+  if (isPdf(contentType, bytes)) {
+    return { url, contentType: 'application/pdf', body: bytes.toString('base64'), encoding: 'base64' };
+  }
+  const type = mediaType(contentType);
+  if (type && !TEXT_TYPE.test(type)) {
+    throw new UnsupportedContentTypeError(type, url);
+  }
+  // Other encodings are decoded when the page is read, so the cache and
+  // fixtures keep the original bytes and their encoding is detected again
+  const { text, encoding } = decodeText(bytes, contentType);
+  if (encoding !== 'UTF-8') {
+    return { url, contentType, body: bytes.toString('base64'), encoding: 'base64' };
+  }
+  return { url, contentType, body: text };
+}
+
+export function documentType(page: FetchedPage): DocumentType {
+  return mediaType(page.contentType) === 'application/pdf' ? 'pdf' : 'html';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// PDFs carry no markup beyond paragraphs, so every format is built from them
+export function pdfContent(paragraphs: string[], format: ContentFormat): string {
+  if (format === 'html') {
+    return paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n');
+  }
+  return paragraphs.join('\n\n');
+}
+
+export async function readDocument(page: FetchedPage, format: ContentFormat = 'text', signal?: AbortSignal): Promise<ReadDocument> {
+  if (documentType(page) === 'pdf') {
+    const pdf = await extractPdf(Buffer.from(page.body, 'base64'), signal);
+    const text = pdf.paragraphs.join('\n\n');
+    // Untitled PDFs are named after their first line
+    const title = pdf.metadata.title || (pdf.paragraphs[0] || '').slice(0, 200);
+    return {
+      type: 'pdf',
+      title,
+      content: pdfContent(pdf.paragraphs, format),
+      text,
+      paragraphs: pdf.paragraphs,
+      canonicalUrl: canonicalizeUrl(page.url),
+      metadata: pdfPageMetadata(pdf.metadata),
+      pdf,
+    };
+  }
+
+  // Pages stored as text were UTF-8
+  const { text: html, encoding } = page.encoding === 'base64'
+    ? decodeText(Buffer.from(page.body, 'base64'), page.contentType)
+    : { text: page.body, encoding: 'UTF-8' };
+  // Parsed once for both; metadata is read before extraction strips the page
+  const $ = cheerio.load(html);
+  const metadata = extractMetadata($, page.url);
+  const main = extractMainContent($, { format, url: page.url });
+  return {
+    type: 'html',
+    encoding,
+    ...main,
+    canonicalUrl: canonicalizeUrl(metadata.canonicalUrl || page.url),
+    metadata,
+  };
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import config from './config.js';
+import { ResultCache } from './cache.js';
+import { throwIfCancelled } from './cancellation.js';
+import type { SearchProvider, SearchProviderName, SearchRequest, SearchResponse } from './search-providers.js';
+import type { FetchedPage } from './document-reader.js';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+interface SearchFixture {
+  provider: SearchProviderName;
+  request: SearchRequest;
+  response: SearchResponse;
+}
+
+// Fixtures recorded before content types were stored only hold the URL and
+// the HTML body; they are read back as text/html pages
+type PageFixture = FetchedPage;
+
+// Raised in replay mode when a request has no recorded fixture
+export class FixtureNotFoundError extends Error {
+  constructor(kind: 'search' | 'page', description: string, file: string) {
+    super(`No recorded ${kind} fixture for ${description} (expected ${file})`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+// Records search responses and fetched pages to a fixture directory, or serves
+// them back so every tool can run offline and deterministically.
+//
+// Layout: <dir>/search/<provider>-<hash>.json and <dir>/pages/<host>-<hash>.json
+export class FixtureStore {
+  constructor(public readonly mode: FixtureMode, private dir: string) {}
+
+  static searchFixtureName(provider: SearchProviderName, request: SearchRequest): string {
+    const normalized = ResultCache.searchKey(
+      Object.fromEntries(
+        Object.entries(request)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [key, String(value)])
+      )
+    );
+    return path.join('search', `${provider}-${FixtureStore.hash(normalized)}.json`);
+  }
+
+  static pageFixtureName(url: string): string {
+    let host = 'page';
+    try {
+      host = new URL(url).hostname.replace(/[^a-z0-9.-]/gi, '_');
+    } catch {}
+    return path.join('pages', `${host}-${FixtureStore.hash(url)}.json`);
+  }
+
+  // Wrap a live provider so every response is written to the fixture directory
+  recordingProvider(provider: SearchProvider): SearchProvider {
+    return {
+      name: provider.name,
+      cacheScope: provider.cacheScope,
+      search: async (request: SearchRequest, signal?: AbortSignal) => {
+        const response = await provider.search(request, signal);
+        this.saveSearch(provider.name, request, response);
+        return response;
+      },
+    };
+  }
+
+  // Provider that only serves recorded responses; needs no credentials
+  replayProvider(name: SearchProviderName): SearchProvider {
+    return {
+      name,
+      cacheScope: `replay:${name}`,
+      search: async (request: SearchRequest, signal?: AbortSignal) => {
+        throwIfCancelled(signal);
+        const file = FixtureStore.searchFixtureName(name, request);
+        const fixture = this.read<SearchFixture>(file);
+        if (!fixture) {
+          throw new FixtureNotFoundError('search', `"${request.query}" on ${name}`, file);
+        }
+        // Replayed responses are cached apart from live ones, whatever engine recorded them
+        return { ...fixture.response, cacheScope: `replay:${name}` };
+      },
+    };
+  }
+
+  // Fetch a page through the fixture directory according to the current mode
+  async page(url: string, loader: () => Promise<FetchedPage>): Promise<FetchedPage> {
+    if (this.mode === 'replay') {
+      const file = FixtureStore.pageFixtureName(url);
+      const fixture = this.read<PageFixture>(file);
+      if (!fixture) {
+        throw new FixtureNotFoundError('page', url, file);
+      }
+      return fixture.contentType || fixture.encoding ? fixture : { ...fixture, contentType: 'text/html' };
+    }
+
+    const page = await loader();
+    if (this.mode === 'record') {
+      this.savePage(page);
+    }
+    return page;
+  }
+
+  saveSearch(provider: SearchProviderName, request: SearchRequest, response: SearchResponse): void {
+    this.write(FixtureStore.searchFixtureName(provider, request), { provider, request, response });
+  }
+
+  savePage(page: FetchedPage): void {
+    this.write(FixtureStore.pageFixtureName(page.url), page);
+  }
+
+  private read<T>(file: string): T | null {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  private write(file: string, data: SearchFixture | PageFixture): void {
+    const fullPath = path.join(this.dir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, JSON.stringify(data, null, 2) + '\n');
+  }
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha1').update(value).digest('hex').slice(0, 12);
+  }
+}
+
+export const fixtureStore = new FixtureStore(config.FIXTURE_MODE, path.resolve(config.FIXTURE_DIR));
@@ -1,3 +1,2 @@
-declare module 'axios-retry';
 declare module 'cheerio';
 declare module 'sentiment';
@@ -0,0 +1,230 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+// Renders extracted page content as Markdown, keeping the structure that a
+// plain-text extraction loses: heading levels, nested lists, fenced code with
+// its language, link targets and tables (GFM pipe tables).
+
+const HEADINGS: Record<string, number> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+
+// Elements rendered as their own block; everything else is inline
+const BLOCK_TAGS = new Set([
+  'body', 'p', 'div', 'section', 'article', 'main', 'header', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'pre', 'blockquote', 'figure', 'figcaption',
+  'table', 'hr', 'address', 'details', 'summary',
+]);
+
+// Paragraphs and list items with more link text than this share are
+// navigation, unless long; the plain-text extraction drops the same blocks
+const MAX_LINK_DENSITY = 0.5;
+
+interface RenderContext {
+  $: cheerio.CheerioAPI;
+  baseUrl?: string;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+// Schemes a link or image in the output may use; javascript:, data: and the
+// like are dropped
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+// Absolute form of a link or image URL, or null when it should be dropped.
+// Without a base URL, relative URLs are kept as they are.
+export function resolveUrl(href: string, baseUrl?: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith('#')) return null;
+  let resolved: URL;
+  try {
+    resolved = new URL(trimmed, baseUrl);
+  } catch {
+    return baseUrl ? null : trimmed;
+  }
+  return SAFE_PROTOCOLS.has(resolved.protocol) ? resolved.toString() : null;
+}
+
+// A backtick run one longer than any inside `text`, so it cannot close early
+function fence(text: string, minimum: number): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  return '`'.repeat(Math.max(minimum, longest + 1));
+}
+
+function codeLanguage(element: Element): string {
+  const classes = [element, ...element.children.filter((child): child is Element => child.type === 'tag')]
+    .map(node => node.attribs.class || '')
+    .join(' ');
+  const match = classes.match(/(?:^|\s)(?:language|lang|highlight-source)-([\w+#.-]+)/);
+  return match ? match[1] : '';
+}
+
+function isMostlyLinks(ctx: RenderContext, nodes: AnyNode[]): boolean {
+  const text = collapse(nodes.map(node => ctx.$(node).text()).join('')).trim();
+  if (!text || text.length > 200) return false;
+  const links = nodes.flatMap(node => (node.type === 'tag' && node.name === 'a' ? [node] : ctx.$(node).find('a').toArray()));
+  const linkText = links.reduce((sum, link) => sum + collapse(ctx.$(link).text()).trim().length, 0);
+  return linkText / text.length > MAX_LINK_DENSITY;
+}
+
+function renderInline(ctx: RenderContext, node: AnyNode): string {
+  if (node.type === 'text') return collapse(node.data);
+  if (node.type !== 'tag') return '';
+
+  const inner = () => node.children.map(child => renderInline(ctx, child)).join('');
+  switch (node.name) {
+    case 'br':
+      return '\n';
+    case 'strong':
+    case 'b': {
+      const text = inner().trim();
+      return text ? `**${text}**` : '';
+    }
+    case 'em':
+    case 'i': {
+      const text = inner().trim();
+      return text ? `*${text}*` : '';
+    }
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const text = ctx.$(node).text();
+      if (!text) return '';
+      const ticks = fence(text, 1);
+      const padded = text.startsWith('`') || text.endsWith('`') ? ` ${text} ` : text;
+      return `${ticks}${padded}${ticks}`;
+    }
+    case 'a': {
+      const text = inner().trim();
+      const href = node.attribs.href ? resolveUrl(node.attribs.href, ctx.baseUrl) : null;
+      if (!text) return '';
+      return href ? `[${text}](${href.replace(/\)/g, '%29')})` : text;
+    }
+    case 'img': {
+      const src = node.attribs.src ? resolveUrl(node.attribs.src, ctx.baseUrl) : null;
+      return src ? `![${collapse(node.attribs.alt || '').trim()}](${src})` : '';
+    }
+    default:
+      return inner();
+  }
+}
+
+// Tidy an inline run into paragraph text: spaces trimmed around line breaks
+function paragraph(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/ +/g, ' ').trim())
+    .filter(Boolean)
+    .join('  \n');
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? prefix + line : line))
+    .join('\n');
+}
+
+function renderList(ctx: RenderContext, list: Element): string {
+  const ordered = list.name === 'ol';
+  let number = Number(list.attribs.start) || 1;
+  const items: string[] = [];
+
+  for (const item of list.children) {
+    if (item.type !== 'tag' || item.name !== 'li') continue;
+    if (isMostlyLinks(ctx, [item]) && !ctx.$(item).find('ul, ol').length) continue;
+
+    const marker = ordered ? `${number++}.` : '-';
+    // Tight list: an item's text and its nested list on consecutive lines
+    const body = renderBlocks(ctx, item.children).join('\n');
+    if (!body) continue;
+    // Continuation lines line up with the text after the marker
+    const [first, ...rest] = body.split('\n');
+    const continuation = rest.length ? `\n${indent(rest.join('\n'), ' '.repeat(marker.length + 1))}` : '';
+    items.push(`${marker} ${first}${continuation}`);
+  }
+
+  return items.join('\n');
+}
+
+function renderTable(ctx: RenderContext, table: Element): string {
+  const rows = ctx.$(table).find('tr').toArray()
+    // Rows of nested tables belong to those tables
+    .filter(row => ctx.$(row).closest('table')[0] === table)
+    .map(row => ctx.$(row).children('th, td').toArray().map(cell =>
+      paragraph(renderInline(ctx, cell)).replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')
+    ))
+    .filter(cells => cells.length > 0);
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(cells => cells.length));
+  const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+function renderBlock(ctx: RenderContext, element: Element): string {
+  const level = HEADINGS[element.name];
+  if (level) {
+    const text = paragraph(renderInline(ctx, element)).replace(/\s*\n\s*/g, ' ');
+    return text ? `${'#'.repeat(level)} ${text}` : '';
+  }
+
+  switch (element.name) {
+    case 'p':
+      return isMostlyLinks(ctx, [element]) ? '' : paragraph(renderInline(ctx, element));
+    case 'ul':
+    case 'ol':
+      return renderList(ctx, element);
+    case 'pre': {
+      const code = ctx.$(element).text().replace(/\n+$/, '');
+      if (!code.trim()) return '';
+      const ticks = fence(code, 3);
+      return `${ticks}${codeLanguage(element)}\n${code}\n${ticks}`;
+    }
+    case 'blockquote': {
+      const inner = renderBlocks(ctx, element.children).join('\n\n');
+      return inner ? indent(inner, '> ').replace(/^$/gm, '>') : '';
+    }
+    case 'table':
+      return renderTable(ctx, element);
+    case 'hr':
+      return '---';
+    case 'dt': {
+      const text = paragraph(renderInline(ctx, element));
+      return text ? `**${text}**` : '';
+    }
+    default:
+      return renderBlocks(ctx, element.children).join('\n\n');
+  }
+}
+
+// Render sibling nodes as Markdown blocks. Inline content between block
+// elements becomes a paragraph of its own.
+function renderBlocks(ctx: RenderContext, nodes: AnyNode[]): string[] {
+  const blocks: string[] = [];
+  let inline: AnyNode[] = [];
+
+  const flush = () => {
+    if (inline.length === 0) return;
+    const text = paragraph(inline.map(node => renderInline(ctx, node)).join(''));
+    if (text && !isMostlyLinks(ctx, inline)) blocks.push(text);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'tag' && BLOCK_TAGS.has(node.name)) {
+      flush();
+      const block = renderBlock(ctx, node);
+      if (block) blocks.push(block);
+    } else {
+      inline.push(node);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+export function toMarkdown($: cheerio.CheerioAPI, roots: cheerio.Cheerio<AnyNode>, baseUrl?: string): string {
+  return renderBlocks({ $, baseUrl }, roots.toArray()).join('\n\n');
+}
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import http from 'http';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type GoogleSearchMCPServer from './mcp-server.js';
+import { googleKeyPool } from './key-pool.js';
+import { searchBreaker } from './circuit-breaker.js';
+import config from './config.js';
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/healthz';
+
+interface Session {
+  transport: SSEServerTransport;
+  server: GoogleSearchMCPServer;
+}
+
+// Key suffixes and upstream error text are only reported to requests bearing
+// HEALTH_TOKEN; without it, /healthz is a plain liveness check. The header is
+// compared in constant time so response timing reveals nothing about the token.
+function healthDetailsAllowed(req: http.IncomingMessage): boolean {
+  if (!config.HEALTH_TOKEN || !req.headers.authorization) {
+    return false;
+  }
+  const expected = Buffer.from(`Bearer ${config.HEALTH_TOKEN}`);
+  const received = Buffer.from(req.headers.authorization);
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Serve MCP over HTTP using the SSE transport. Every GET /sse connection gets its
+// own session with a dedicated server instance; clients then POST their messages
+// to /messages?sessionId=<id>. Caches, rate limits and the circuit breaker are
+// module-level, so they are shared by all sessions.
+export function startHttpServer(
+  port: number,
+  createServer: () => GoogleSearchMCPServer
+): Promise<http.Server> {
+  const sessions = new Map<string, Session>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: sessions.size,
+          quota: googleKeyPool.quotaStatus(),
+          apiKeys: googleKeyPool.snapshot(healthDetailsAllowed(req)),
+          circuitBreaker: searchBreaker.snapshot(),
+        });
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createServer();
+        sessions.set(transport.sessionId, { transport, server });
+
+        res.on('close', () => {
+          sessions.delete(transport.sessionId);
+          server.close().catch(() => undefined);
+        });
+
+        await server.connect(transport);
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+        const sessionId = url.searchParams.get('sessionId') || '';
+        const session = sessions.get(sessionId);
+        if (!session) {
+          sendJson(res, 404, { error: 'unknown_session', message: `No active session: ${sessionId}` });
+          return;
+        }
+        await session.transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: 'not_found', message: `No route for ${req.method} ${url.pathname}` });
+    } catch (error) {
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'internal_error', message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
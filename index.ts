@@ -1,11 +1,34 @@
 import GoogleSearchMCPServer from './mcp-server.js';
+import { startHttpServer } from './http-server.js';
+import config from './config.js';
+import { loadSettings } from './settings.js';
+import { errorFields, logger } from './logger.js';
+
+// --transport=<stdio|http> (or --transport <value>) overrides MCP_TRANSPORT
+function resolveTransport(argv: string[]): string {
+  const index = argv.findIndex(arg => arg === '--transport' || arg.startsWith('--transport='));
+  if (index === -1) return config.MCP_TRANSPORT;
+  const arg = argv[index];
+  return arg.includes('=') ? arg.split('=')[1] : argv[index + 1] || '';
+}
 
 async function main() {
   try {
-    const server = new GoogleSearchMCPServer();
-    await server.run();
+    // An invalid settings file stops the server before it accepts any connection
+    loadSettings();
+    const transport = resolveTransport(process.argv.slice(2));
+
+    if (transport === 'http') {
+      await startHttpServer(config.PORT, () => new GoogleSearchMCPServer());
+      logger.info('Google Search MCP server listening', { port: config.PORT, sse: '/sse', health: '/healthz' });
+    } else if (transport === 'stdio') {
+      const server = new GoogleSearchMCPServer();
+      await server.run();
+    } else {
+      throw new Error(`Unknown transport "${transport}", expected "stdio" or "http"`);
+    }
   } catch (error) {
-    console.error('Failed to start MCP server:', error);
+    logger.error('Failed to start MCP server', errorFields(error));
     process.exit(1);
   }
 }
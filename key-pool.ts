@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import config, { ApiKeyEntry } from './config.js';
+import { DailyQuota, QuotaExceededError } from './rate-limiter.js';
+
+export type KeyRotation = 'round-robin' | 'failover';
+
+// Why a key was taken out of rotation
+export type KeyFailure = 'quota' | 'rate' | 'forbidden';
+
+// A key handed out by the pool for a single request
+export interface PooledKey {
+  id: string;
+  apiKey: string;
+  cseId?: string;
+}
+
+interface KeyState extends PooledKey {
+  quota: DailyQuota;
+  requests: number;
+  failures: number;
+  lastError: string | null;
+  lastUsedAt: number | null;
+  unavailableUntil: number | null;
+  unavailableReason: KeyFailure | null;
+}
+
+interface ApiKeyPoolOptions {
+  rotation: KeyRotation;
+  dailyLimit: number;
+  // Base quota state file; each key persists its counter next to it
+  stateFile: string;
+  cooldownMs: number;
+  rateLimitWindowMs: number;
+}
+
+// Pool of Custom Search API keys with their own daily quotas. Keys are handed
+// out round-robin (spreading load) or in failover order (first healthy key
+// first); a key that hits its quota, a rate limit or a 403 is skipped until it
+// recovers.
+export class ApiKeyPool {
+  private keys: KeyState[];
+  private nextIndex = 0;
+
+  constructor(entries: ApiKeyEntry[], private options: ApiKeyPoolOptions) {
+    this.keys = entries.map(entry => {
+      const id = ApiKeyPool.fingerprint(entry.apiKey);
+      return {
+        id,
+        apiKey: entry.apiKey,
+        cseId: entry.cseId,
+        quota: new DailyQuota(options.dailyLimit, ApiKeyPool.quotaStateFile(options.stateFile, id)),
+        requests: 0,
+        failures: 0,
+        lastError: null,
+        lastUsedAt: null,
+        unavailableUntil: null,
+        unavailableReason: null,
+      };
+    });
+  }
+
+  // Short stable identifier that never reveals the key itself
+  static fingerprint(apiKey: string): string {
+    return crypto.createHash('sha1').update(apiKey).digest('hex').slice(0, 8);
+  }
+
+  static quotaStateFile(baseFile: string, id: string): string {
+    const { dir, name, ext } = path.parse(baseFile);
+    return path.join(dir, `${name}-${id}${ext || '.json'}`);
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  // Reserve one request on the next usable key, skipping keys already tried for
+  // this request. Throws QuotaExceededError when no key is usable.
+  acquire(exclude: ReadonlySet<string> = new Set()): PooledKey {
+    if (this.keys.length === 0) {
+      throw new Error('No Google API keys are configured');
+    }
+
+    const index = this.nextUsableIndex(exclude);
+    if (index === -1) {
+      throw this.unavailableError();
+    }
+
+    const key = this.keys[index];
+    key.quota.consume();
+    key.requests++;
+    key.lastUsedAt = Date.now();
+    this.nextIndex = (index + 1) % this.keys.length;
+    return { id: key.id, apiKey: key.apiKey, cseId: key.cseId };
+  }
+
+  // The key acquire() would hand out next, without reserving a request on it
+  peek(): PooledKey | null {
+    const index = this.nextUsableIndex(new Set());
+    if (index === -1) return null;
+    const key = this.keys[index];
+    return { id: key.id, apiKey: key.apiKey, cseId: key.cseId };
+  }
+
+  // Give back a request reserved by acquire() that was never sent
+  release(id: string): void {
+    const key = this.find(id);
+    if (!key) return;
+    key.quota.refund();
+    key.requests = Math.max(key.requests - 1, 0);
+  }
+
+  reportSuccess(id: string): void {
+    const key = this.find(id);
+    if (!key) return;
+    key.unavailableUntil = null;
+    key.unavailableReason = null;
+  }
+
+  // Take a key out of rotation: until the next quota reset for 'quota', for
+  // the rate limit window for 'rate', and for the cooldown for 'forbidden'
+  reportFailure(id: string, failure: KeyFailure, message: string): void {
+    const key = this.find(id);
+    if (!key) return;
+
+    key.failures++;
+    key.lastError = message;
+    key.unavailableReason = failure;
+    if (failure === 'quota') {
+      key.quota.exhaust();
+      key.unavailableUntil = DailyQuota.nextReset().getTime();
+    } else if (failure === 'rate') {
+      key.unavailableUntil = Date.now() + this.options.rateLimitWindowMs;
+    } else {
+      key.unavailableUntil = Date.now() + this.options.cooldownMs;
+    }
+  }
+
+  // Combined quota of every key, for health reporting
+  quotaStatus() {
+    const statuses = this.keys.map(key => key.quota.status());
+    const used = statuses.reduce((sum, status) => sum + status.used, 0);
+    const limit = statuses.reduce((sum, status) => sum + status.limit, 0);
+    return {
+      used,
+      limit,
+      remaining: Math.max(limit - used, 0),
+      resetsAt: DailyQuota.nextReset().toISOString(),
+    };
+  }
+
+  // Per-key health for monitoring. Key suffixes and the raw upstream error
+  // text, which can carry quota details and request URLs, are only included
+  // when `details` is set.
+  snapshot(details = false) {
+    return {
+      rotation: this.options.rotation,
+      keys: this.keys.map(key => {
+        const quota = key.quota.status();
+        return {
+          id: key.id,
+          ...(details && { key: `...${key.apiKey.slice(-4)}` }),
+          cseId: key.cseId || null,
+          healthy: this.isAvailable(key),
+          unavailableReason: this.isAvailable(key) ? null : key.unavailableReason || 'quota',
+          unavailableUntil: key.unavailableUntil && key.unavailableUntil > Date.now()
+            ? new Date(key.unavailableUntil).toISOString()
+            : null,
+          requests: key.requests,
+          failures: key.failures,
+          ...(details && { lastError: key.lastError }),
+          lastUsedAt: key.lastUsedAt ? new Date(key.lastUsedAt).toISOString() : null,
+          quota: { used: quota.used, limit: quota.limit, remaining: quota.remaining },
+        };
+      }),
+    };
+  }
+
+  // Error describing when the soonest key becomes usable again
+  unavailableError(): QuotaExceededError {
+    const { used, limit } = this.quotaStatus();
+    const dailyReset = DailyQuota.nextReset();
+    const rateLimited = this.keys
+      .filter(key => key.quota.status().remaining > 0 && key.unavailableUntil !== null && key.unavailableUntil > Date.now())
+      .map(key => key.unavailableUntil as number);
+
+    if (rateLimited.length > 0) {
+      const resetsAt = new Date(Math.min(...rateLimited));
+      return new QuotaExceededError(
+        `All ${this.keys.length} API key(s) are rate limited or failing, retry after ${resetsAt.toISOString()}`,
+        'rate',
+        resetsAt
+      );
+    }
+
+    return new QuotaExceededError(
+      `Daily search quota exhausted on all ${this.keys.length} API key(s) (${used}/${limit}), resets at ${dailyReset.toISOString()}`,
+      'daily',
+      dailyReset,
+      used,
+      limit
+    );
+  }
+
+  private isAvailable(key: KeyState): boolean {
+    if (key.unavailableUntil !== null && key.unavailableUntil > Date.now()) return false;
+    return key.quota.status().remaining > 0;
+  }
+
+  private nextUsableIndex(exclude: ReadonlySet<string>): number {
+    const start = this.options.rotation === 'round-robin' ? this.nextIndex : 0;
+    for (let offset = 0; offset < this.keys.length; offset++) {
+      const index = (start + offset) % this.keys.length;
+      const key = this.keys[index];
+      if (!exclude.has(key.id) && this.isAvailable(key)) return index;
+    }
+    return -1;
+  }
+
+  private find(id: string): KeyState | undefined {
+    return this.keys.find(key => key.id === id);
+  }
+}
+
+export const googleKeyPool = new ApiKeyPool(config.GOOGLE_API_KEYS, {
+  rotation: config.KEY_ROTATION,
+  dailyLimit: config.DAILY_QUOTA,
+  stateFile: config.QUOTA_STATE_FILE || path.join(os.homedir(), '.mcp-server-google-search', 'quota.json'),
+  cooldownMs: config.KEY_COOLDOWN_MS,
+  rateLimitWindowMs: config.RATE_LIMIT_WINDOW_MS,
+});
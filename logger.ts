@@ -0,0 +1,85 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import config, { LOG_LEVELS, type LogLevel } from './config.js';
+
+type LogFields = Record<string, unknown>;
+
+// Correlation data attached to every log line written while handling a request
+interface RequestContext {
+  requestId: string;
+  tool?: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Run fn with a request context so every log line written inside it, however
+// deeply nested, carries the same request ID
+export function runWithRequestContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return requestContext.run(context, fn);
+}
+
+export function newRequestId(): string {
+  return crypto.randomUUID().slice(0, 8);
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// Leveled logger writing one JSON object per line to stderr, which keeps stdout
+// free for the stdio MCP transport
+export class Logger {
+  constructor(
+    private level: LogLevel,
+    private stream: NodeJS.WritableStream = process.stderr,
+    private bindings: LogFields = {}
+  ) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger(this.level, this.stream, { ...this.bindings, ...bindings });
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...requestContext.getStore(),
+      ...this.bindings,
+      ...fields,
+    };
+    this.stream.write(JSON.stringify(entry) + '\n');
+  }
+}
+
+// Normalize a caught value into log fields
+export function errorFields(error: unknown): LogFields {
+  if (error instanceof Error) {
+    return { error: error.message, errorName: error.name };
+  }
+  return { error: String(error) };
+}
+
+export const logger = new Logger(config.LOG_LEVEL);
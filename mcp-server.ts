@@ -1,32 +1,111 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
+  LoggingLevelSchema,
+  McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import axios from 'axios';
-import axiosRetry from 'axios-retry';
 import { z } from 'zod';
-import * as cheerio from 'cheerio';
 import Sentiment from 'sentiment';
 import config from './config.js';
-
-// Configure axios retry
-axiosRetry(axios, { 
-  retries: 3, 
-  retryDelay: axiosRetry.exponentialDelay, 
-  retryCondition: axiosRetry.isNetworkOrIdempotentRequestError 
-});
+import { ResultCache, resultCache } from './cache.js';
+import { QuotaExceededError } from './rate-limiter.js';
+import { CircuitOpenError, searchBreaker } from './circuit-breaker.js';
+import {
+  MAX_SEARCH_RESULTS,
+  SEARCH_PAGE_SIZE,
+  SEARCH_PROVIDERS,
+  SearchItem,
+  SearchProviderName,
+  SearchRequest,
+  SearchResponse,
+  getSearchProvider,
+} from './search-providers.js';
+import { fixtureStore } from './fixtures.js';
+import { allSettledWithConcurrency, hostLimiter } from './concurrency.js';
+import { ProgressReporter } from './progress.js';
+import { CancelledError, cancellationReason, throwIfCancelled, toCancelledError } from './cancellation.js';
+import { ResearchType, settings } from './settings.js';
+import { credibilityEngine } from './credibility.js';
+import { DuplicateMerger, SourceRecord, canonicalizeUrl } from './canonical-url.js';
+import { RRF_K, Ranking, fuseRankings } from './rank-fusion.js';
+import { CONTENT_FORMATS, ContentFormat, toPlainText } from './content-extractor.js';
+import { FetchedPage, ReadDocument, pdfContent, readDocument, toFetchedPage } from './document-reader.js';
+import { PageMetadata } from './page-metadata.js';
+import { Chunk, chunkBlocks, chunkContent, chunkCursor, cursorIndex } from './chunking.js';
+import { RESOURCE_TEMPLATES, ResultStore, StoredKind, resultStore } from './result-store.js';
+import { getPrompt, prompts } from './prompts.js';
+import {
+  AcademicSearchResult,
+  ContentSummaryResult,
+  ExtractedPage,
+  PdfInfo,
+  StoredPage,
+  FactCheckReport,
+  FactCheckSource,
+  GoogleSearchResult,
+  MultiSiteSearchResult,
+  NewsMonitorResult,
+  PageSummary,
+  Citation,
+  ResearchFinding,
+  ResearchReport,
+  ResearchSource,
+  SearchAnalyticsResult,
+  Synthesis,
+  SearchPagination,
+  WrittenReport,
+  academicSearchResultSchema,
+  contentSummaryResultSchema,
+  extractedPageSchema,
+  factCheckReportSchema,
+  googleSearchResultSchema,
+  multiSiteSearchResultSchema,
+  newsMonitorResultSchema,
+  researchReportSchema,
+  searchAnalyticsResultSchema,
+  toOutputSchema,
+} from './result-models.js';
+import { currentRequestId, errorFields, logger, newRequestId, runWithRequestContext } from './logger.js';
 
 // Sentiment analyzer for content extraction
 const sentiment = new Sentiment();
 
+// Longest excerpt of a page's text a research_assistant finding quotes
+const FINDING_CONTENT_SIZE = 10000;
+
 // Tool definitions
+// Result model of each tool; outputs are validated against it and it is
+// advertised as the tool's outputSchema
+const toolOutputSchemas: Record<string, z.ZodTypeAny> = {
+  google_search: googleSearchResultSchema,
+  extract_content: extractedPageSchema,
+  search_analytics: searchAnalyticsResultSchema,
+  multi_site_search: multiSiteSearchResultSchema,
+  news_monitor: newsMonitorResultSchema,
+  academic_search: academicSearchResultSchema,
+  content_summarizer: contentSummaryResultSchema,
+  fact_checker: factCheckReportSchema,
+  research_assistant: researchReportSchema,
+};
+
 const tools: Tool[] = [
   {
     name: 'google_search',
-    description: 'Search the web using Google Custom Search API with various filtering options',
+    description: 'Search the web using Google Custom Search API (or the configured search provider) with various filtering options',
     inputSchema: {
       type: 'object',
       properties: {
@@ -85,19 +164,60 @@ const tools: Tool[] = [
           description: 'Starting index for results (1-based)',
           minimum: 1,
         },
+        maxResults: {
+          type: 'number',
+          description: 'Collect up to this many results (1-100) over several paged requests, replacing num. Each request costs one API call.',
+          minimum: 1,
+          maximum: 100,
+        },
+        provider: {
+          type: 'string',
+          description: 'Search backend to use (defaults to the SEARCH_PROVIDER setting)',
+          enum: [...SEARCH_PROVIDERS],
+        },
+        cseProfile: {
+          type: 'string',
+          description: 'Named Google search engine from GOOGLE_CSE_PROFILES (e.g. "news", "academic")',
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
+        },
       },
       required: ['q'],
     },
   },
   {
     name: 'extract_content',
-    description: 'Extract main content and analyze sentiment from a web page',
+    description: 'Extract main content and analyze sentiment from a web page or PDF document',
     inputSchema: {
       type: 'object',
       properties: {
         url: {
           type: 'string',
-          description: 'URL of the web page to extract content from',
+          description: 'URL of the web page or PDF to extract content from',
+        },
+        format: {
+          type: 'string',
+          description: 'Format of the returned content: plain text paragraphs, Markdown keeping headings, lists, code blocks, links and tables, or cleaned HTML',
+          enum: [...CONTENT_FORMATS],
+          default: 'text',
+        },
+        chunkIndex: {
+          type: 'number',
+          description: 'Zero-based chunk of the page to return; long pages are split into chunks of about 5000 characters at paragraph boundaries',
+          minimum: 0,
+          default: 0,
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from a previous call, to read the chunk that follows (instead of chunkIndex)',
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
         },
       },
       required: ['url'],
@@ -129,6 +249,20 @@ const tools: Tool[] = [
           maximum: 5,
           default: 3,
         },
+        provider: {
+          type: 'string',
+          description: 'Search backend to use (defaults to the SEARCH_PROVIDER setting)',
+          enum: [...SEARCH_PROVIDERS],
+        },
+        cseProfile: {
+          type: 'string',
+          description: 'Named Google search engine from GOOGLE_CSE_PROFILES (e.g. "news", "academic")',
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
+        },
       },
       required: ['queries'],
     },
@@ -162,6 +296,38 @@ const tools: Tool[] = [
           description: 'File type to search for',
           enum: ['pdf', 'doc', 'docx', 'ppt', 'pptx', 'xls', 'xlsx', 'rtf'],
         },
+        merge: {
+          type: 'boolean',
+          description: 'Also return one ranked list across all sites, fused with reciprocal rank fusion',
+          default: false,
+        },
+        lexicalWeight: {
+          type: 'number',
+          description: 'With merge, the share of the ranking given to how well each title and snippet match the query (0-1)',
+          minimum: 0,
+          maximum: 1,
+          default: 0,
+        },
+        provider: {
+          type: 'string',
+          description: 'Search backend to use (defaults to the SEARCH_PROVIDER setting)',
+          enum: [...SEARCH_PROVIDERS],
+        },
+        cseProfile: {
+          type: 'string',
+          description: 'Named Google search engine from GOOGLE_CSE_PROFILES (e.g. "news", "academic")',
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Maximum number of searches or page fetches to run in parallel (defaults to the MAX_CONCURRENCY setting)',
+          minimum: 1,
+          maximum: 10,
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
+        },
       },
       required: ['query', 'sites'],
     },
@@ -205,6 +371,32 @@ const tools: Tool[] = [
           enum: ['d1', 'd7', 'm1', 'm6', 'y1'],
           default: 'd7',
         },
+        sortBy: {
+          type: 'string',
+          description: 'Order of each source\'s articles: as ranked by the search, or newest first by the publication date in their metadata (undated articles last)',
+          enum: ['relevance', 'date'],
+          default: 'relevance',
+        },
+        provider: {
+          type: 'string',
+          description: 'Search backend to use (defaults to the SEARCH_PROVIDER setting)',
+          enum: [...SEARCH_PROVIDERS],
+        },
+        cseProfile: {
+          type: 'string',
+          description: 'Named Google search engine from GOOGLE_CSE_PROFILES (e.g. "news", "academic"); defaults to "news" when that profile is configured',
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Maximum number of searches or page fetches to run in parallel (defaults to the MAX_CONCURRENCY setting)',
+          minimum: 1,
+          maximum: 10,
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
+        },
       },
       required: ['topic'],
     },
@@ -244,6 +436,26 @@ const tools: Tool[] = [
           maximum: 10,
           default: 5,
         },
+        provider: {
+          type: 'string',
+          description: 'Search backend to use (defaults to the SEARCH_PROVIDER setting)',
+          enum: [...SEARCH_PROVIDERS],
+        },
+        cseProfile: {
+          type: 'string',
+          description: 'Named Google search engine from GOOGLE_CSE_PROFILES (e.g. "news", "academic"); defaults to "academic" when that profile is configured',
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Maximum number of searches or page fetches to run in parallel (defaults to the MAX_CONCURRENCY setting)',
+          minimum: 1,
+          maximum: 10,
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
+        },
       },
       required: ['query'],
     },
@@ -289,6 +501,23 @@ const tools: Tool[] = [
           description: 'Generate an overall summary combining all URLs',
           default: true,
         },
+        format: {
+          type: 'string',
+          description: 'Format of the page content stored behind each summary\'s resourceUri (summaries are always plain text)',
+          enum: [...CONTENT_FORMATS],
+          default: 'text',
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Maximum number of searches or page fetches to run in parallel (defaults to the MAX_CONCURRENCY setting)',
+          minimum: 1,
+          maximum: 10,
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
+        },
       },
       required: ['urls'],
     },
@@ -337,6 +566,26 @@ const tools: Tool[] = [
           description: 'Include extracted evidence snippets',
           default: true,
         },
+        provider: {
+          type: 'string',
+          description: 'Search backend to use (defaults to the SEARCH_PROVIDER setting)',
+          enum: [...SEARCH_PROVIDERS],
+        },
+        cseProfile: {
+          type: 'string',
+          description: 'Named Google search engine from GOOGLE_CSE_PROFILES (e.g. "news", "academic")',
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Maximum number of searches or page fetches to run in parallel (defaults to the MAX_CONCURRENCY setting)',
+          minimum: 1,
+          maximum: 10,
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
+        },
       },
       required: ['claim'],
     },
@@ -411,12 +660,35 @@ const tools: Tool[] = [
           description: 'Specific areas to focus research on (e.g., ["methodology", "findings", "implications"])',
           maxItems: 5,
         },
+        provider: {
+          type: 'string',
+          description: 'Search backend to use (defaults to the SEARCH_PROVIDER setting)',
+          enum: [...SEARCH_PROVIDERS],
+        },
+        cseProfile: {
+          type: 'string',
+          description: 'Named Google search engine from GOOGLE_CSE_PROFILES (e.g. "news", "academic")',
+        },
+        concurrency: {
+          type: 'number',
+          description: 'Maximum number of searches or page fetches to run in parallel (defaults to the MAX_CONCURRENCY setting)',
+          minimum: 1,
+          maximum: 10,
+        },
+        bypassCache: {
+          type: 'boolean',
+          description: 'Skip cached search results and pages for this call (fresh results are still cached)',
+          default: false,
+        },
       },
       required: ['researchTopic'],
     },
   },
 ];
 
+// Tools as listed to clients, each with the JSON Schema of its result model
+const listedTools: Tool[] = tools.map(tool => ({ ...tool, outputSchema: toOutputSchema(toolOutputSchemas[tool.name]) }));
+
 // Validation schemas
 const searchQuerySchema = z.object({
   q: z.string().min(1),
@@ -431,16 +703,27 @@ const searchQuerySchema = z.object({
   hl: z.string().optional(),
   num: z.number().min(1).max(10).optional(),
   start: z.number().min(1).optional(),
+  maxResults: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional(),
+  provider: z.enum(SEARCH_PROVIDERS).optional(),
+  cseProfile: z.string().min(1).optional(),
+  bypassCache: z.boolean().optional(),
 });
 
 const extractSchema = z.object({
   url: z.string().url(),
-});
+  format: z.enum(CONTENT_FORMATS).optional(),
+  chunkIndex: z.number().int().min(0).optional(),
+  cursor: z.string().min(1).optional(),
+  bypassCache: z.boolean().optional(),
+}).refine(args => args.chunkIndex === undefined || args.cursor === undefined, 'Pass either chunkIndex or cursor, not both');
 
 const searchAnalyticsSchema = z.object({
   queries: z.array(z.string().min(1)).min(1).max(5),
   timeRange: z.enum(['week', 'month', 'year']).optional(),
   maxResults: z.number().min(1).max(5).optional(),
+  provider: z.enum(SEARCH_PROVIDERS).optional(),
+  cseProfile: z.string().min(1).optional(),
+  bypassCache: z.boolean().optional(),
 });
 
 const multiSiteSearchSchema = z.object({
@@ -448,6 +731,12 @@ const multiSiteSearchSchema = z.object({
   sites: z.array(z.string().min(1)).min(1).max(5),
   maxResults: z.number().min(1).max(5).optional(),
   fileType: z.string().optional(),
+  merge: z.boolean().optional(),
+  lexicalWeight: z.number().min(0).max(1).optional(),
+  provider: z.enum(SEARCH_PROVIDERS).optional(),
+  cseProfile: z.string().min(1).optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  bypassCache: z.boolean().optional(),
 });
 
 const newsMonitorSchema = z.object({
@@ -457,6 +746,11 @@ const newsMonitorSchema = z.object({
   country: z.string().optional(),
   maxResults: z.number().min(1).max(10).optional(),
   dateRestrict: z.enum(['d1', 'd7', 'm1', 'm6', 'y1']).optional(),
+  sortBy: z.enum(['relevance', 'date']).optional(),
+  provider: z.enum(SEARCH_PROVIDERS).optional(),
+  cseProfile: z.string().min(1).optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  bypassCache: z.boolean().optional(),
 });
 
 const academicSearchSchema = z.object({
@@ -465,6 +759,10 @@ const academicSearchSchema = z.object({
   dateRange: z.enum(['d1', 'd7', 'm1', 'm6', 'y1', 'y2']).optional(),
   sites: z.array(z.string()).optional(),
   maxResults: z.number().min(1).max(10).optional(),
+  provider: z.enum(SEARCH_PROVIDERS).optional(),
+  cseProfile: z.string().min(1).optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  bypassCache: z.boolean().optional(),
 });
 
 const contentSummarizerSchema = z.object({
@@ -473,6 +771,9 @@ const contentSummarizerSchema = z.object({
   includeSentiment: z.boolean().optional(),
   focusAreas: z.array(z.string()).max(5).optional(),
   generateOverallSummary: z.boolean().optional(),
+  format: z.enum(CONTENT_FORMATS).optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  bypassCache: z.boolean().optional(),
 });
 
 const factCheckerSchema = z.object({
@@ -482,6 +783,10 @@ const factCheckerSchema = z.object({
   timeframe: z.enum(['d1', 'd7', 'm1', 'm6', 'y1', 'y2']).optional(),
   maxResults: z.number().min(1).max(5).optional(),
   includeEvidence: z.boolean().optional(),
+  provider: z.enum(SEARCH_PROVIDERS).optional(),
+  cseProfile: z.string().min(1).optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  bypassCache: z.boolean().optional(),
 });
 
 const researchAssistantSchema = z.object({
@@ -495,10 +800,37 @@ const researchAssistantSchema = z.object({
   includeCitations: z.boolean().optional(),
   generateReport: z.boolean().optional(),
   focusAreas: z.array(z.string()).max(5).optional(),
+  provider: z.enum(SEARCH_PROVIDERS).optional(),
+  cseProfile: z.string().min(1).optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+  bypassCache: z.boolean().optional(),
 });
 
+// Per-call options threaded from tool arguments down to outbound requests
+interface RequestOptions {
+  bypassCache?: boolean;
+  provider?: SearchProviderName;
+  cseProfile?: string;
+  concurrency?: number;
+  signal?: AbortSignal;
+}
+
+// Per-call state handed from the MCP request to the tool handlers
+interface ToolContext {
+  progress: ProgressReporter;
+  // Aborted when the client sends a cancellation notification for the call
+  signal?: AbortSignal;
+}
+
+// A research run while it is built, before it is stored and annotated with
+// the breaker state
+type ResearchResults = Omit<ResearchReport, 'partial' | 'cancellation' | 'resourceUri' | 'circuitBreaker'>;
+
 class GoogleSearchMCPServer {
   private server: Server;
+  private unsubscribeResults: () => void;
+  // Least severe level the client asked to receive with logging/setLevel
+  private clientLogLevel: LoggingLevel = 'debug';
 
   constructor() {
     this.server = new Server(
@@ -509,169 +841,492 @@ class GoogleSearchMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: { listChanged: true },
+          prompts: {},
+          logging: {},
         },
       }
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+    this.setupLoggingHandlers();
+
+    // Results are shared by every session; tell this client when one is added
+    this.unsubscribeResults = resultStore.onChange(() => {
+      this.server.sendResourceListChanged().catch(error => {
+        logger.debug('Resource list notification failed', errorFields(error));
+      });
+    });
   }
 
   private setupToolHandlers() {
     // List tools handler
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools,
+        tools: listedTools,
       };
     });
 
     // Call tool handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progress = new ProgressReporter(
+        notification => this.server.notification(notification),
+        request.params._meta?.progressToken
+      );
+      const { signal } = extra;
 
-      try {
-        switch (name) {
-          case 'google_search':
-            return await this.handleGoogleSearch(args);
-          case 'extract_content':
-            return await this.handleExtractContent(args);
-          case 'search_analytics':
-            return await this.handleSearchAnalytics(args);
-          case 'multi_site_search':
-            return await this.handleMultiSiteSearch(args);
-          case 'news_monitor':
-            return await this.handleNewsMonitor(args);
-          case 'academic_search':
-            return await this.handleAcademicSearch(args);
-          case 'content_summarizer':
-            return await this.handleContentSummarizer(args);
-          case 'fact_checker':
-            return await this.handleFactChecker(args);
-          case 'research_assistant':
-            return await this.handleResearchAssistant(args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
+      return runWithRequestContext({ requestId: newRequestId(), tool: name }, async () => {
+        const startedAt = Date.now();
+        logger.info('Tool call started');
+        logger.debug('Tool call arguments', { args });
+
+        try {
+          const result = await this.dispatchTool(name, args, { progress, signal });
+          if (signal.aborted) {
+            logger.info('Tool call cancelled', {
+              durationMs: Date.now() - startedAt,
+              outcome: 'cancelled',
+              reason: cancellationReason(signal),
+              partial: true,
+            });
+            // The SDK drops the response to a cancelled request, so what the
+            // call had gathered reaches the client as a log message instead
+            await this.sendPartialResult(name, request.params._meta?.progressToken, result.structuredContent);
+          } else {
+            logger.info('Tool call completed', { durationMs: Date.now() - startedAt, outcome: 'success' });
+          }
+          return result;
+        } catch (error) {
+          if (error instanceof CancelledError) {
+            logger.info('Tool call cancelled', { durationMs: Date.now() - startedAt, outcome: 'cancelled', reason: error.reason });
+            return this.toErrorResult(error);
+          }
+          logger.warn('Tool call failed', { durationMs: Date.now() - startedAt, outcome: 'error', ...errorFields(error) });
+          return this.toErrorResult(error);
         }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${errorMessage}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+      });
     });
   }
 
-  private async handleGoogleSearch(args: unknown) {
-    const validatedArgs = searchQuerySchema.parse(args);
-    
-    const params: Record<string, string> = {
-      key: config.GOOGLE_API_KEY,
-      cx: config.GOOGLE_CSE_ID,
-      q: validatedArgs.q,
-    };
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: resultStore.list().map(entry => ({
+          uri: entry.uri,
+          name: entry.name,
+          description: entry.description,
+          mimeType: 'application/json',
+        })),
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: RESOURCE_TEMPLATES,
+      };
+    });
 
-    // Add optional parameters (excluding invalid ones)
-    const validParams = ['fileType', 'siteSearch', 'dateRestrict', 'safe', 'exactTerms', 'excludeTerms', 'sort', 'gl', 'hl', 'num', 'start'];
-    Object.entries(validatedArgs).forEach(([key, value]) => {
-      if (key !== 'q' && value !== undefined && validParams.includes(key)) {
-        params[key] = String(value);
+    this.server.setRequestHandler(ReadResourceRequestSchema, async request => {
+      const entry = resultStore.get(request.params.uri);
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${request.params.uri}`);
       }
+      return {
+        contents: [
+          {
+            uri: entry.uri,
+            mimeType: 'application/json',
+            text: JSON.stringify({ ...(entry.data as object), storedAt: entry.createdAt }, null, 2),
+          },
+        ],
+      };
+    });
+  }
+
+  private setupLoggingHandlers() {
+    this.server.setRequestHandler(SetLevelRequestSchema, async request => {
+      this.clientLogLevel = request.params.level;
+      return {};
     });
+  }
 
+  private async sendPartialResult(tool: string, progressToken: ProgressToken | undefined, result: object) {
+    const levels = LoggingLevelSchema.options;
+    if (levels.indexOf('notice') < levels.indexOf(this.clientLogLevel)) return;
     try {
-      const response = await axios.get('https://www.googleapis.com/customsearch/v1', {
-        params,
-        timeout: 10000,
+      await this.server.sendLoggingMessage({
+        level: 'notice',
+        logger: 'partial-result',
+        data: { tool, ...(progressToken !== undefined && { progressToken }), result },
       });
+    } catch (error) {
+      logger.debug('Partial result notification failed', errorFields(error));
+    }
+  }
 
-      const results = response.data;
-      
-      // Format the results for better readability
-      const formattedResults = {
-        searchInfo: {
-          totalResults: results.searchInformation?.totalResults || '0',
-          searchTime: results.searchInformation?.searchTime || '0',
-          formattedSearchTime: results.searchInformation?.formattedSearchTime || '0',
-        },
-        items: results.items?.map((item: any) => ({
-          title: item.title,
-          link: item.link,
-          snippet: item.snippet,
-          displayLink: item.displayLink,
-          formattedUrl: item.formattedUrl,
-          pagemap: item.pagemap,
-        })) || [],
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts,
       };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async request => {
+      return getPrompt(request.params.name, request.params.arguments);
+    });
+  }
+
+  private async dispatchTool(name: string, args: unknown, context: ToolContext) {
+    const outputSchema = toolOutputSchemas[name];
+    if (!outputSchema) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    return this.toToolResult(name, outputSchema, await this.runTool(name, args, context));
+  }
+
+  private async runTool(name: string, args: unknown, context: ToolContext): Promise<object> {
+    switch (name) {
+      case 'google_search':
+        return await this.handleGoogleSearch(args, context);
+      case 'extract_content':
+        return await this.handleExtractContent(args, context);
+      case 'search_analytics':
+        return await this.handleSearchAnalytics(args, context);
+      case 'multi_site_search':
+        return await this.handleMultiSiteSearch(args, context);
+      case 'news_monitor':
+        return await this.handleNewsMonitor(args, context);
+      case 'academic_search':
+        return await this.handleAcademicSearch(args, context);
+      case 'content_summarizer':
+        return await this.handleContentSummarizer(args, context);
+      case 'fact_checker':
+        return await this.handleFactChecker(args, context);
+      case 'research_assistant':
+        return await this.handleResearchAssistant(args, context);
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
 
+  // Validate a handler's output against the tool's result model and return it
+  // both as JSON text and as structured content
+  private toToolResult(name: string, schema: z.ZodTypeAny, output: object) {
+    const parsed = schema.safeParse(output);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      logger.error('Tool output does not match its schema', { issues });
+      throw new Error(`${name} produced output that does not match its schema: ${issues.join('; ')}`);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(parsed.data, null, 2),
+        },
+      ],
+      structuredContent: parsed.data,
+    };
+  }
+
+  // Keep a tool result for later reads as an MCP resource. Returns its URI, or
+  // undefined when the store is disabled.
+  private storeResult(kind: StoredKind, id: string, meta: { name: string; description: string }, data: object): string | undefined {
+    return resultStore.save(kind, id, meta, data)?.uri;
+  }
+
+  // Page previously stored under a page:// URI, for tools that accept one in
+  // place of a web URL
+  private storedPage(uri: string): StoredPage {
+    const entry = resultStore.get(uri);
+    if (!entry || entry.kind !== 'page') {
+      throw new Error(`Stored page not found: ${uri}`);
+    }
+    return entry.data as StoredPage;
+  }
+
+  private storePage(page: StoredPage): string | undefined {
+    return this.storeResult('page', ResultStore.pageId(page.url), {
+      name: page.title || page.url,
+      description: `Extracted content of ${page.url}`,
+    }, { ...page, extractedAt: new Date().toISOString() });
+  }
+
+  private toErrorResult(error: unknown) {
+    if (error instanceof QuotaExceededError) {
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(formattedResults, null, 2),
+            text: JSON.stringify(error.toJSON(), null, 2),
           },
         ],
+        isError: true,
       };
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const errorMessage = error.response?.data?.error?.message || error.message;
-        throw new Error(`Google Search API error: ${errorMessage}`);
-      }
-      throw error;
     }
-  }
 
-  private async handleExtractContent(args: unknown) {
-    const validatedArgs = extractSchema.parse(args);
-    
-    try {
-      const response = await axios.get(validatedArgs.url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; GoogleSearchMCP/1.0)',
-        },
-      });
-
-      const $ = cheerio.load(response.data);
-      
-      // Extract main content
-      const mainContent = $('main').text() || $('article').text() || $('body').text();
-      const title = $('title').text() || $('h1').first().text();
-      
-      // Clean up the content
-      const cleanedContent = mainContent
-        .replace(/\s+/g, ' ')
-        .trim()
-        .substring(0, 5000); // Limit content length
-      
-      // Analyze sentiment
-      const sentimentResult = sentiment.analyze(cleanedContent);
-      
-      const extractedData = {
-        url: validatedArgs.url,
-        title: title.trim(),
-        content: cleanedContent,
-        sentiment: {
-          score: sentimentResult.score,
-          comparative: sentimentResult.comparative,
-          positive: sentimentResult.positive,
-          negative: sentimentResult.negative,
-        },
-        wordCount: cleanedContent.split(' ').length,
+    if (error instanceof CircuitOpenError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: 'circuit_open',
+              message: error.message,
+              retryAt: error.retryAt.toISOString(),
+              circuitBreaker: searchBreaker.snapshot(),
+            }, null, 2),
+          },
+        ],
+        isError: true,
       };
+    }
 
+    if (error instanceof CancelledError) {
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(extractedData, null, 2),
+            text: JSON.stringify({ error: 'cancelled', message: error.message, reason: error.reason }, null, 2),
           },
         ],
+        isError: true,
       };
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${errorMessage}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Tools with a natural engine (news, academic) use the profile of that name when it is configured
+  private defaultCseProfile(name: string): string | undefined {
+    return config.GOOGLE_CSE_PROFILES[name] ? name : undefined;
+  }
+
+  // Marks a multi-source result as partial when the call was cancelled part-way
+  private partialFields(signal?: AbortSignal) {
+    return signal?.aborted ? { partial: true as const, cancellation: { reason: cancellationReason(signal) } } : {};
+  }
+
+  // Run a search on the requested (or default) provider through the shared result cache
+  private async search(request: SearchRequest, options: RequestOptions = {}): Promise<SearchResponse> {
+    return (await this.cachedSearch(request, options)).response;
+  }
+
+  // Like search(), also telling whether the provider was called or the cache answered
+  private async cachedSearch(request: SearchRequest, options: RequestOptions): Promise<{ response: SearchResponse; fetched: boolean }> {
+    const provider = getSearchProvider(options.provider, options.cseProfile);
+    const fields = { provider: provider.name, query: request.query, siteSearch: request.siteSearch };
+    const cacheKey = (scope: string) => ResultCache.searchKey({
+      provider: scope,
+      ...Object.fromEntries(Object.entries(request).map(([key, value]) => [key, value === undefined ? '' : String(value)])),
+    });
+
+    if (!options.bypassCache) {
+      const cached = await resultCache.get<SearchResponse>('search', cacheKey(provider.cacheScope));
+      if (cached !== undefined) {
+        logger.debug('Search served from cache', fields);
+        return { response: cached, fetched: false };
+      }
+    }
+
+    const startedAt = Date.now();
+    let response: SearchResponse;
+    try {
+      response = await provider.search(request, options.signal);
+      logger.info('Search completed', {
+        ...fields,
+        durationMs: Date.now() - startedAt,
+        outcome: 'success',
+        resultCount: response.items.length,
+      });
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      logger.warn('Search failed', { ...fields, durationMs: Date.now() - startedAt, outcome: 'error', ...errorFields(error) });
+      throw error;
+    }
+
+    // Stored under the engine that answered, which for a pool of keys with
+    // their own engines need not be the one looked up
+    await resultCache.set('search', cacheKey(response.cacheScope || provider.cacheScope), response);
+    return { response, fetched: true };
+  }
+
+  // Collect up to `maxResults` items by requesting consecutive pages, stopping
+  // early once the engine runs out of results. Items repeated across pages are
+  // dropped. A failure or cancellation after the first page keeps the items
+  // gathered so far.
+  private async pagedSearch(
+    request: SearchRequest,
+    maxResults: number,
+    options: RequestOptions,
+    progress: ProgressReporter
+  ): Promise<{ response: SearchResponse; pagination: SearchPagination }> {
+    const items: SearchItem[] = [];
+    const seen = new Set<string>();
+    const pagination: SearchPagination = {
+      requested: maxResults,
+      pagesFetched: 0,
+      apiCalls: 0,
+      duplicatesRemoved: 0,
+      stoppedBecause: 'maxResults',
+    };
+    let last: SearchResponse | undefined;
+    let searchTime = 0;
+    let start = request.start || 1;
+
+    progress.setTotal(Math.ceil(maxResults / SEARCH_PAGE_SIZE));
+    while (items.length < maxResults) {
+      // The engine serves at most the first 100 results of a query
+      if (start > MAX_SEARCH_RESULTS) {
+        pagination.stoppedBecause = 'resultLimit';
+        break;
+      }
+      const num = Math.min(SEARCH_PAGE_SIZE, maxResults - items.length, MAX_SEARCH_RESULTS - start + 1);
+
+      let page: { response: SearchResponse; fetched: boolean };
+      try {
+        page = await this.cachedSearch({ ...request, start, num }, options);
+      } catch (error) {
+        if (!last) throw error;
+        pagination.stoppedBecause = error instanceof CancelledError ? 'cancelled' : 'error';
+        if (!(error instanceof CancelledError)) {
+          pagination.error = error instanceof Error ? error.message : String(error);
+        }
+        break;
+      }
+
+      last = page.response;
+      searchTime += page.response.searchTime;
+      pagination.pagesFetched++;
+      if (page.fetched) pagination.apiCalls++;
+      for (const item of page.response.items) {
+        if (seen.has(item.link)) {
+          pagination.duplicatesRemoved++;
+        } else if (items.length < maxResults) {
+          seen.add(item.link);
+          items.push(item);
+        }
+      }
+      progress.advance(`Fetched results ${start}-${start + page.response.items.length - 1}`);
+
+      start += num;
+      if (page.response.items.length < num || start > page.response.totalResults) {
+        if (items.length < maxResults) pagination.stoppedBecause = 'exhausted';
+        break;
+      }
+    }
+
+    if (!last) {
+      throw new Error(`Results can only be paged through the first ${MAX_SEARCH_RESULTS}, so start must be ${MAX_SEARCH_RESULTS} or less`);
+    }
+    return { response: { ...last, searchTime, items }, pagination };
+  }
+
+  // Fetch a page through the shared result cache and the fixture store.
+  // Live fetches are capped per host so a fan-out never floods a single site.
+  // Cached under `document`, as the body together with its content type.
+  private async fetchPage(url: string, options: RequestOptions = {}): Promise<FetchedPage> {
+    throwIfCancelled(options.signal);
+    return resultCache.wrap('document', url, () => fixtureStore.page(url, async () => {
+      const startedAt = Date.now();
+      try {
+        const response = await hostLimiter.run(new URL(url).host, () => axios.get<ArrayBuffer>(url, {
+          timeout: 10000,
+          signal: options.signal,
+          responseType: 'arraybuffer',
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; GoogleSearchMCP/1.0)',
+          },
+        }), options.signal);
+        const bytes = Buffer.from(response.data);
+        logger.info('Page fetch completed', {
+          url,
+          durationMs: Date.now() - startedAt,
+          outcome: 'success',
+          status: response.status,
+          contentType: response.headers['content-type'],
+          bytes: bytes.length,
+        });
+        return toFetchedPage(url, response.headers['content-type']?.toString(), bytes);
+      } catch (error) {
+        const cancelled = toCancelledError(error, options.signal);
+        if (cancelled) throw cancelled;
+        logger.warn('Page fetch failed', {
+          url,
+          durationMs: Date.now() - startedAt,
+          outcome: 'error',
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+          ...errorFields(error),
+        });
+        throw error;
+      }
+    }), options.bypassCache);
+  }
+
+  // Fetch a page and read its main content, whether it is HTML or a PDF
+  private async readPage(url: string, options: RequestOptions & { format?: ContentFormat } = {}): Promise<ReadDocument> {
+    return readDocument(await this.fetchPage(url, options), options.format, options.signal);
+  }
+
+  private async handleGoogleSearch(args: unknown, { signal, progress }: ToolContext): Promise<GoogleSearchResult> {
+    const validatedArgs = searchQuerySchema.parse(args);
+    const { q, provider, cseProfile, bypassCache, maxResults, ...filters } = validatedArgs;
+    const options = { provider, cseProfile, bypassCache, signal };
+
+    let results: SearchResponse;
+    let pagination: SearchPagination | undefined;
+    let apiCalls: number;
+    if (maxResults) {
+      ({ response: results, pagination } = await this.pagedSearch({ query: q, ...filters }, maxResults, options, progress));
+      apiCalls = pagination.apiCalls;
+    } else {
+      const { response, fetched } = await this.cachedSearch({ query: q, ...filters }, options);
+      results = response;
+      apiCalls = fetched ? 1 : 0;
+    }
+
+    // Format the results for better readability
+    const formattedResults: GoogleSearchResult = {
+      searchInfo: {
+        provider: results.provider,
+        totalResults: String(results.totalResults),
+        searchTime: results.searchTime,
+        formattedSearchTime: results.searchTime.toFixed(2),
+        apiCalls,
+        // Only the Google engine draws on a daily query quota
+        quotaUnitsUsed: results.provider === 'google' ? apiCalls : 0,
+      },
+      items: results.items,
+      ...(pagination ? { pagination } : {}),
+      circuitBreaker: searchBreaker.snapshot(),
+    };
+
+    return formattedResults;
+  }
+
+  private async handleExtractContent(args: unknown, { signal }: ToolContext): Promise<ExtractedPage> {
+    const validatedArgs = extractSchema.parse(args);
+    const { url, format, bypassCache, chunkIndex, cursor } = validatedArgs;
+    
+    try {
+      // A page:// URI reads back an earlier extraction instead of fetching again
+      const { page } = await this.loadPage(url, { format, bypassCache, signal });
+      const resourceUri = url.startsWith('page://') ? url : this.storePage(page);
+
+      return { ...this.pageChunk(page, { chunkIndex, cursor }), resourceUri };
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const errorMessage = error.response?.status === 404 
@@ -683,13 +1338,95 @@ class GoogleSearchMCPServer {
     }
   }
 
-  private async handleSearchAnalytics(args: unknown) {
+  // Extract a whole page, or read back one stored under a page:// URI.
+  // extract_content returns it a chunk at a time and the other tools analyze
+  // its plain text, which is returned alongside.
+  private async loadPage(url: string, options: RequestOptions & { format?: ContentFormat } = {}): Promise<{ page: StoredPage; text: string }> {
+    if (url.startsWith('page://')) {
+      const page = this.storedPage(url);
+      return { page, text: toPlainText(page.content, page.format) };
+    }
+
+    const format = options.format || 'text';
+    const document = await this.readPage(url, { ...options, format });
+    const sentimentResult = sentiment.analyze(document.text);
+    const page: StoredPage = {
+      url,
+      title: document.title,
+      content: document.content,
+      format,
+      documentType: document.type,
+      ...(document.encoding && { encoding: document.encoding }),
+      ...(document.pdf && {
+        pdf: {
+          pageCount: document.pdf.pageCount,
+          metadata: document.pdf.metadata,
+          pages: document.pdf.pages,
+        },
+      }),
+      canonicalUrl: document.canonicalUrl,
+      metadata: document.metadata,
+      sentiment: {
+        score: sentimentResult.score,
+        comparative: sentimentResult.comparative,
+        positive: sentimentResult.positive,
+        negative: sentimentResult.negative,
+      },
+      wordCount: this.countWords(document.text),
+    };
+    return { page, text: document.text };
+  }
+
+  // The chunk of a page picked by chunkIndex or by a cursor from an earlier
+  // chunk, defaulting to the first
+  private pageChunk(page: StoredPage, position: { chunkIndex?: number; cursor?: string }): ExtractedPage {
+    const { chunks, content, pages } = page.pdf ? this.pdfChunks(page.pdf, page.format) : this.contentChunks(page);
+    const index = position.cursor ? cursorIndex(position.cursor, page.content) : position.chunkIndex || 0;
+    if (index >= chunks.length) {
+      throw new Error(`chunkIndex ${index} is out of range; the page has ${chunks.length} chunk${chunks.length === 1 ? '' : 's'}`);
+    }
+
+    return {
+      ...page,
+      content: content(chunks[index]),
+      ...(page.pdf && pages && { pdf: { ...page.pdf, pages: pages(chunks[index]) } }),
+      chunkIndex: index,
+      totalChunks: chunks.length,
+      ...(index + 1 < chunks.length && { nextCursor: chunkCursor(page.content, index + 1) }),
+    };
+  }
+
+  private contentChunks(page: StoredPage) {
+    return { chunks: chunkContent(page.content, page.format), content: (chunk: Chunk) => chunk.content, pages: undefined };
+  }
+
+  // PDFs are chunked by their paragraphs, so each chunk can list the pages
+  // its text comes from
+  private pdfChunks(pdf: PdfInfo, format: ContentFormat) {
+    const paragraphs = pdf.pages.flatMap(page => page.text.split('\n\n').filter(Boolean).map(text => ({ page: page.page, text })));
+    const pages = (chunk: Chunk) => {
+      const byPage = new Map<number, string[]>();
+      for (const part of chunk.parts) {
+        const page = paragraphs[part.block].page;
+        byPage.set(page, [...(byPage.get(page) || []), part.text]);
+      }
+      return [...byPage].map(([page, texts]) => ({ page, text: texts.join('\n\n') }));
+    };
+    return {
+      chunks: chunkBlocks(paragraphs.map(paragraph => paragraph.text), 'text'),
+      content: (chunk: Chunk) => pdfContent(chunk.parts.map(part => part.text), format),
+      pages,
+    };
+  }
+
+  private async handleSearchAnalytics(args: unknown, { signal }: ToolContext): Promise<SearchAnalyticsResult> {
     const validatedArgs = searchAnalyticsSchema.parse(args);
+    const { limits } = settings.current;
     
     const analyticsResults = {
       queries: validatedArgs.queries,
       timeRange: validatedArgs.timeRange || 'month',
-      results: [] as any[],
+      results: [] as SearchAnalyticsResult['results'],
       summary: {
         totalResults: 0,
         averageResults: 0,
@@ -698,30 +1435,26 @@ class GoogleSearchMCPServer {
       },
     };
 
-    // Execute searches for each query
+    // Execute searches for each query, stopping early if the call is cancelled
     for (const query of validatedArgs.queries) {
+      if (signal?.aborted) break;
       try {
-        const params: Record<string, string> = {
-          key: config.GOOGLE_API_KEY,
-          cx: config.GOOGLE_CSE_ID,
-          q: query,
-          num: String(validatedArgs.maxResults || 3),
-        };
-
-        const response = await axios.get('https://www.googleapis.com/customsearch/v1', {
-          params,
-          timeout: 10000,
-        });
+        const data = await this.search({
+          query,
+          num: validatedArgs.maxResults || limits.search_analytics.maxResults,
+        }, { provider: validatedArgs.provider, cseProfile: validatedArgs.cseProfile, bypassCache: validatedArgs.bypassCache, signal });
 
-        const resultCount = parseInt(response.data.searchInformation?.totalResults || '0');
+        const items = data.items.slice(0, validatedArgs.maxResults || limits.search_analytics.maxResults);
         analyticsResults.results.push({
           query,
-          resultCount,
-          items: response.data.items?.slice(0, validatedArgs.maxResults || 3) || [],
+          resultCount: items.length,
+          totalAvailable: data.totalResults,
+          items,
         });
 
-        analyticsResults.summary.totalResults += resultCount;
+        analyticsResults.summary.totalResults += data.totalResults;
       } catch (error) {
+        if (error instanceof CancelledError) break;
         analyticsResults.results.push({
           query,
           error: error instanceof Error ? error.message : 'Search failed',
@@ -730,15 +1463,15 @@ class GoogleSearchMCPServer {
     }
 
     // Calculate analytics
-    const successfulResults = analyticsResults.results.filter(r => !r.error);
+    const successfulResults = analyticsResults.results.flatMap(r => ('error' in r ? [] : [r]));
     analyticsResults.summary.averageResults = successfulResults.length > 0 
       ? analyticsResults.summary.totalResults / successfulResults.length 
       : 0;
 
     // Find top performing query
     const topResult = successfulResults.reduce((max, current) => 
-      current.resultCount > max.resultCount ? current : max, 
-      { resultCount: 0, query: '' }
+      current.totalAvailable > max.totalAvailable ? current : max, 
+      { totalAvailable: 0, query: '' }
     );
     analyticsResults.summary.topPerformingQuery = topResult.query;
 
@@ -755,160 +1488,169 @@ class GoogleSearchMCPServer {
       .slice(0, 5)
       .map(([word]) => word);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(analyticsResults, null, 2),
-        },
-      ],
-    };
+    return { ...analyticsResults, ...this.partialFields(signal), circuitBreaker: searchBreaker.snapshot() };
   }
 
-  private async handleMultiSiteSearch(args: unknown) {
+  private async handleMultiSiteSearch(args: unknown, { signal }: ToolContext): Promise<MultiSiteSearchResult> {
     const validatedArgs = multiSiteSearchSchema.parse(args);
+    const { limits } = settings.current;
     
     const multiSiteResults = {
       query: validatedArgs.query,
       sites: validatedArgs.sites,
-      results: [] as any[],
+      results: [] as MultiSiteSearchResult['results'],
       summary: {
         totalResults: 0,
         sitesSearched: 0,
         successfulSearches: 0,
+        duplicatesMerged: 0,
       },
     };
 
-    // Search each site
-    for (const site of validatedArgs.sites) {
-      try {
-        const params: Record<string, string> = {
-          key: config.GOOGLE_API_KEY,
-          cx: config.GOOGLE_CSE_ID,
-          q: validatedArgs.query,
-          siteSearch: site,
-          num: String(validatedArgs.maxResults || 3),
-        };
-
-        if (validatedArgs.fileType) {
-          params.fileType = validatedArgs.fileType;
-        }
-
-        const response = await axios.get('https://www.googleapis.com/customsearch/v1', {
-          params,
-          timeout: 10000,
-        });
+    // Search all sites in parallel, then collect the results in site order
+    const outcomes = await allSettledWithConcurrency(
+      validatedArgs.sites,
+      validatedArgs.concurrency || limits.multi_site_search.concurrency || config.MAX_CONCURRENCY,
+      site => this.search({
+        query: validatedArgs.query,
+        siteSearch: site,
+        num: validatedArgs.maxResults || limits.multi_site_search.maxResults,
+        fileType: validatedArgs.fileType,
+      }, { provider: validatedArgs.provider, cseProfile: validatedArgs.cseProfile, bypassCache: validatedArgs.bypassCache, signal }),
+      signal
+    );
 
-        const siteResults = response.data.items || [];
+    // A result already returned for an earlier site is merged into it
+    const merger = new DuplicateMerger();
+    const rankings: Ranking<SearchItem>[] = [];
+    outcomes.forEach((outcome, index) => {
+      // Work skipped or interrupted by a cancellation is left out of the partial result
+      if (outcome.status === 'rejected' && outcome.reason instanceof CancelledError) return;
+      const site = validatedArgs.sites[index];
+      if (outcome.status === 'fulfilled') {
+        const data = outcome.value;
+        rankings.push({ site, items: data.items });
+        const siteResults = merger.add(site, data.items);
         multiSiteResults.results.push({
           site,
           resultCount: siteResults.length,
-          totalAvailable: parseInt(response.data.searchInformation?.totalResults || '0'),
+          totalAvailable: data.totalResults,
           items: siteResults,
         });
 
         multiSiteResults.summary.totalResults += siteResults.length;
         multiSiteResults.summary.successfulSearches++;
-      } catch (error) {
+      } else {
         multiSiteResults.results.push({
           site,
-          error: error instanceof Error ? error.message : 'Search failed',
+          error: outcome.reason instanceof Error ? outcome.reason.message : 'Search failed',
         });
       }
       multiSiteResults.summary.sitesSearched++;
+    });
+    multiSiteResults.summary.duplicatesMerged = merger.duplicatesRemoved;
+
+    // Fuse the sites' own rankings, before duplicates were removed, so a
+    // result several sites returned gets credit from each of them
+    if (validatedArgs.merge) {
+      const lexicalWeight = validatedArgs.lexicalWeight ?? 0;
+      const merged = {
+        method: lexicalWeight > 0 ? 'rrf+lexical' as const : 'rrf' as const,
+        k: RRF_K,
+        lexicalWeight,
+        items: fuseRankings(rankings, { query: validatedArgs.query, lexicalWeight }),
+      };
+      return { ...multiSiteResults, merged, ...this.partialFields(signal), circuitBreaker: searchBreaker.snapshot() };
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(multiSiteResults, null, 2),
-        },
-      ],
-    };
+    return { ...multiSiteResults, ...this.partialFields(signal), circuitBreaker: searchBreaker.snapshot() };
   }
 
-  private async handleNewsMonitor(args: unknown) {
+  private async handleNewsMonitor(args: unknown, { signal }: ToolContext): Promise<NewsMonitorResult> {
     const validatedArgs = newsMonitorSchema.parse(args);
+    const { timeframes, limits } = settings.current;
+    const cseProfile = validatedArgs.cseProfile || this.defaultCseProfile('news');
     
     const newsResults = {
       topic: validatedArgs.topic,
       sources: validatedArgs.sources || [],
       language: validatedArgs.language || 'en',
       country: validatedArgs.country || 'us',
-      dateRestrict: validatedArgs.dateRestrict || 'd7',
-      results: [] as any[],
+      dateRestrict: validatedArgs.dateRestrict || timeframes.news_monitor,
+      sortBy: validatedArgs.sortBy || 'relevance',
+      results: [] as NewsMonitorResult['results'],
       summary: {
         totalArticles: 0,
         sourcesFound: 0,
-        dateRange: validatedArgs.dateRestrict || 'd7',
+        duplicatesMerged: 0,
+        dateRange: validatedArgs.dateRestrict || timeframes.news_monitor,
       },
     };
 
+    // An article already returned for an earlier source is merged into it
+    const merger = new DuplicateMerger();
+
     // If specific sources provided, search each one
     if (validatedArgs.sources && validatedArgs.sources.length > 0) {
-      for (const source of validatedArgs.sources) {
-        try {
-          const params: Record<string, string> = {
-            key: config.GOOGLE_API_KEY,
-            cx: config.GOOGLE_CSE_ID,
-            q: validatedArgs.topic,
-            siteSearch: source,
-            num: String(validatedArgs.maxResults || 5),
-            dateRestrict: validatedArgs.dateRestrict || 'd7',
-            hl: validatedArgs.language || 'en',
-            gl: validatedArgs.country || 'us',
-          };
-
-          const response = await axios.get('https://www.googleapis.com/customsearch/v1', {
-            params,
-            timeout: 10000,
-          });
+      const sources = validatedArgs.sources;
+      const outcomes = await allSettledWithConcurrency(
+        sources,
+        validatedArgs.concurrency || limits.news_monitor.concurrency || config.MAX_CONCURRENCY,
+        source => this.search({
+          query: validatedArgs.topic,
+          siteSearch: source,
+          num: validatedArgs.maxResults || limits.news_monitor.maxResults,
+          dateRestrict: validatedArgs.dateRestrict || timeframes.news_monitor,
+          hl: validatedArgs.language || 'en',
+          gl: validatedArgs.country || 'us',
+        }, { provider: validatedArgs.provider, cseProfile, bypassCache: validatedArgs.bypassCache, signal }),
+        signal
+      );
 
-          const articles = response.data.items || [];
+      outcomes.forEach((outcome, index) => {
+        if (outcome.status === 'rejected' && outcome.reason instanceof CancelledError) return;
+        const source = sources[index];
+        if (outcome.status === 'fulfilled') {
+          const articles = this.orderArticles(merger.add(source, outcome.value.items), validatedArgs.sortBy);
           newsResults.results.push({
             source,
-            articleCount: articles.length,
-            articles,
+            resultCount: articles.length,
+            totalAvailable: outcome.value.totalResults,
+            items: articles,
           });
 
           newsResults.summary.totalArticles += articles.length;
           newsResults.summary.sourcesFound++;
-        } catch (error) {
+        } else {
           newsResults.results.push({
             source,
-            error: error instanceof Error ? error.message : 'Search failed',
+            error: outcome.reason instanceof Error ? outcome.reason.message : 'Search failed',
           });
         }
-      }
+      });
     } else {
       // General news search
       try {
-        const params: Record<string, string> = {
-          key: config.GOOGLE_API_KEY,
-          cx: config.GOOGLE_CSE_ID,
-          q: validatedArgs.topic,
-          num: String(validatedArgs.maxResults || 5),
-          dateRestrict: validatedArgs.dateRestrict || 'd7',
+        const data = await this.search({
+          query: validatedArgs.topic,
+          num: validatedArgs.maxResults || limits.news_monitor.maxResults,
+          dateRestrict: validatedArgs.dateRestrict || timeframes.news_monitor,
           hl: validatedArgs.language || 'en',
           gl: validatedArgs.country || 'us',
-        };
-
-        const response = await axios.get('https://www.googleapis.com/customsearch/v1', {
-          params,
-          timeout: 10000,
-        });
+        }, { provider: validatedArgs.provider, cseProfile, bypassCache: validatedArgs.bypassCache, signal });
 
-        const articles = response.data.items || [];
+        const articles = this.orderArticles(merger.add('general_news', data.items), validatedArgs.sortBy);
         newsResults.results.push({
           source: 'general_news',
-          articleCount: articles.length,
-          articles,
+          resultCount: articles.length,
+          totalAvailable: data.totalResults,
+          items: articles,
         });
 
         newsResults.summary.totalArticles = articles.length;
         newsResults.summary.sourcesFound = 1;
       } catch (error) {
+        if (error instanceof CancelledError) throw error;
         newsResults.results.push({
           source: 'general_news',
           error: error instanceof Error ? error.message : 'Search failed',
@@ -916,81 +1658,81 @@ class GoogleSearchMCPServer {
       }
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(newsResults, null, 2),
-        },
-      ],
-    };
+    newsResults.summary.duplicatesMerged = merger.duplicatesRemoved;
+    return { ...newsResults, ...this.partialFields(signal), circuitBreaker: searchBreaker.snapshot() };
+  }
+
+  // Newest first when sorting by date; ISO dates sort as strings
+  private orderArticles(articles: SearchItem[], sortBy: 'relevance' | 'date' = 'relevance'): SearchItem[] {
+    if (sortBy === 'relevance') return articles;
+    return [...articles].sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''));
   }
 
-  private async handleAcademicSearch(args: unknown) {
+  private async handleAcademicSearch(args: unknown, { signal }: ToolContext): Promise<AcademicSearchResult> {
     const validatedArgs = academicSearchSchema.parse(args);
+    const { sources, timeframes, limits } = settings.current;
+    const cseProfile = validatedArgs.cseProfile || this.defaultCseProfile('academic');
     
     const academicResults = {
       query: validatedArgs.query,
       fileType: validatedArgs.fileType || 'pdf',
-      dateRange: validatedArgs.dateRange || 'y1',
-      sites: validatedArgs.sites || ['arxiv.org', 'scholar.google.com', 'researchgate.net'],
-      results: [] as any[],
+      dateRange: validatedArgs.dateRange || timeframes.academic_search,
+      sites: validatedArgs.sites || sources.academicSearch,
+      results: [] as AcademicSearchResult['results'],
       summary: {
         totalPapers: 0,
         sitesSearched: 0,
         successfulSearches: 0,
-        dateRange: validatedArgs.dateRange || 'y1',
+        duplicatesMerged: 0,
+        dateRange: validatedArgs.dateRange || timeframes.academic_search,
       },
     };
 
-    // Search each academic site
-    for (const site of validatedArgs.sites || ['arxiv.org', 'scholar.google.com', 'researchgate.net']) {
-      try {
-        const params: Record<string, string> = {
-          key: config.GOOGLE_API_KEY,
-          cx: config.GOOGLE_CSE_ID,
-          q: validatedArgs.query,
-          siteSearch: site,
-          fileType: validatedArgs.fileType || 'pdf',
-          num: String(validatedArgs.maxResults || 5),
-          dateRestrict: validatedArgs.dateRange || 'y1',
-        };
-
-        const response = await axios.get('https://www.googleapis.com/customsearch/v1', {
-          params,
-          timeout: 10000,
-        });
+    // Search all academic sites in parallel, then collect the results in site order
+    const outcomes = await allSettledWithConcurrency(
+      academicResults.sites,
+      validatedArgs.concurrency || limits.academic_search.concurrency || config.MAX_CONCURRENCY,
+      site => this.search({
+        query: validatedArgs.query,
+        siteSearch: site,
+        fileType: validatedArgs.fileType || 'pdf',
+        num: validatedArgs.maxResults || limits.academic_search.maxResults,
+        dateRestrict: validatedArgs.dateRange || timeframes.academic_search,
+      }, { provider: validatedArgs.provider, cseProfile, bypassCache: validatedArgs.bypassCache, signal }),
+      signal
+    );
 
-        const papers = response.data.items || [];
+    // A paper already returned for an earlier site is merged into it
+    const merger = new DuplicateMerger();
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected' && outcome.reason instanceof CancelledError) return;
+      const site = academicResults.sites[index];
+      if (outcome.status === 'fulfilled') {
+        const data = outcome.value;
+        const papers = merger.add(site, data.items);
         academicResults.results.push({
           site,
-          paperCount: papers.length,
-          totalAvailable: parseInt(response.data.searchInformation?.totalResults || '0'),
-          papers,
+          resultCount: papers.length,
+          totalAvailable: data.totalResults,
+          items: papers,
         });
 
         academicResults.summary.totalPapers += papers.length;
         academicResults.summary.successfulSearches++;
-      } catch (error) {
+      } else {
         academicResults.results.push({
           site,
-          error: error instanceof Error ? error.message : 'Search failed',
+          error: outcome.reason instanceof Error ? outcome.reason.message : 'Search failed',
         });
       }
       academicResults.summary.sitesSearched++;
-    }
+    });
+    academicResults.summary.duplicatesMerged = merger.duplicatesRemoved;
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(academicResults, null, 2),
-        },
-      ],
-    };
+    return { ...academicResults, ...this.partialFields(signal), circuitBreaker: searchBreaker.snapshot() };
   }
 
-  private async handleContentSummarizer(args: unknown) {
+  private async handleContentSummarizer(args: unknown, { progress, signal }: ToolContext): Promise<ContentSummaryResult> {
     const validatedArgs = contentSummarizerSchema.parse(args);
     
     const summaryResults = {
@@ -999,7 +1741,7 @@ class GoogleSearchMCPServer {
       includeSentiment: validatedArgs.includeSentiment !== false,
       focusAreas: validatedArgs.focusAreas || [],
       generateOverallSummary: validatedArgs.generateOverallSummary !== false,
-      summaries: [] as any[],
+      summaries: [] as PageSummary[],
       overallSummary: '',
       statistics: {
         totalUrls: validatedArgs.urls.length,
@@ -1014,25 +1756,44 @@ class GoogleSearchMCPServer {
       },
     };
 
-    // Process each URL
-    for (const url of validatedArgs.urls) {
-      try {
-        // Extract content using existing method
-        const contentResult = await this.extractContentFromUrl(url);
-        
+    // Extract all URLs in parallel, then summarize them in input order
+    progress.setTotal(validatedArgs.urls.length);
+    const outcomes = await allSettledWithConcurrency(
+      validatedArgs.urls,
+      validatedArgs.concurrency || settings.current.limits.content_summarizer.concurrency || config.MAX_CONCURRENCY,
+      async url => {
+        try {
+          return await this.extractContentFromUrl(url, { format: validatedArgs.format, bypassCache: validatedArgs.bypassCache, signal });
+        } finally {
+          progress.advance(`Extracted ${url}`);
+        }
+      },
+      signal
+    );
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected' && outcome.reason instanceof CancelledError) return;
+      const url = validatedArgs.urls[index];
+      if (outcome.status === 'fulfilled') {
+        const contentResult = outcome.value;
         if (contentResult.success && contentResult.data) {
-          const { title, content, wordCount, sentiment } = contentResult.data;
+          const { text, ...page } = contentResult.data;
+          const { title, documentType, wordCount, sentiment } = page;
           
           // Generate summary based on focus areas
-          const summary = this.generateSummary(content, validatedArgs.maxLength || 200, validatedArgs.focusAreas);
+          const summary = this.generateSummary(text, validatedArgs.maxLength || 200, validatedArgs.focusAreas);
           
           summaryResults.summaries.push({
             url,
             title,
             summary,
+            documentType,
             wordCount,
             sentiment: validatedArgs.includeSentiment ? sentiment : undefined,
             extractionTime: new Date().toISOString(),
+            resourceUri: url.startsWith('page://')
+              ? url
+              : this.storePage(page),
           });
 
           summaryResults.statistics.successfulExtractions++;
@@ -1047,20 +1808,20 @@ class GoogleSearchMCPServer {
         } else {
           summaryResults.summaries.push({
             url,
-            error: contentResult.error,
+            error: contentResult.error || 'Extraction failed',
             extractionTime: new Date().toISOString(),
           });
           summaryResults.statistics.failedExtractions++;
         }
-      } catch (error) {
+      } else {
         summaryResults.summaries.push({
           url,
-          error: error instanceof Error ? error.message : 'Unknown error',
+          error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error',
           extractionTime: new Date().toISOString(),
         });
         summaryResults.statistics.failedExtractions++;
       }
-    }
+    });
 
     // Calculate average word count
     if (summaryResults.statistics.successfulExtractions > 0) {
@@ -1071,61 +1832,22 @@ class GoogleSearchMCPServer {
     // Generate overall summary if requested
     if (validatedArgs.generateOverallSummary && summaryResults.statistics.successfulExtractions > 0) {
       const allSummaries = summaryResults.summaries
-        .filter(s => s.summary)
-        .map(s => s.summary)
+        .flatMap(s => ('summary' in s && s.summary ? [s.summary] : []))
         .join(' ');
       summaryResults.overallSummary = this.generateSummary(allSummaries, 300, ['key insights', 'main themes', 'conclusions']);
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(summaryResults, null, 2),
-        },
-      ],
-    };
+    return { ...summaryResults, ...this.partialFields(signal) };
   }
 
-  private async extractContentFromUrl(url: string) {
+  // The whole page for analysis: `content` is in the requested format and
+  // `text` is always plain text
+  private async extractContentFromUrl(url: string, options: RequestOptions & { format?: ContentFormat } = {}) {
     try {
-      const response = await axios.get(url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; GoogleSearchMCP/1.0)',
-        },
-      });
-
-      const $ = cheerio.load(response.data);
-      
-      // Extract main content
-      const mainContent = $('main').text() || $('article').text() || $('body').text();
-      const title = $('title').text() || $('h1').first().text();
-      
-      // Clean up the content
-      const cleanedContent = mainContent
-        .replace(/\s+/g, ' ')
-        .trim()
-        .substring(0, 10000); // Limit content length for processing
-      
-      // Analyze sentiment
-      const sentimentResult = sentiment.analyze(cleanedContent);
-      
-      return {
-        success: true,
-        data: {
-          title: title.trim(),
-          content: cleanedContent,
-          wordCount: cleanedContent.split(' ').length,
-          sentiment: {
-            score: sentimentResult.score,
-            comparative: sentimentResult.comparative,
-            positive: sentimentResult.positive,
-            negative: sentimentResult.negative,
-          },
-        },
-      };
+      const { page, text } = await this.loadPage(url, options);
+      return { success: true, data: { ...page, text } };
     } catch (error) {
+      if (error instanceof CancelledError) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -1172,33 +1894,22 @@ class GoogleSearchMCPServer {
     return summary.trim() || content.substring(0, maxLength) + (content.length > maxLength ? '...' : '');
   }
 
-  private async handleFactChecker(args: unknown) {
+  private async handleFactChecker(args: unknown, { progress, signal }: ToolContext): Promise<FactCheckReport> {
     const validatedArgs = factCheckerSchema.parse(args);
     
-    // Default authoritative sources if none provided
-    const defaultSources = [
-      'wikipedia.org',
-      'bbc.com',
-      'reuters.com',
-      'ap.org',
-      'factcheck.org',
-      'snopes.com',
-      'politifact.com',
-      'scholar.google.com',
-      'pubmed.ncbi.nlm.nih.gov',
-      'nature.com'
-    ];
+    const { sources, timeframes, limits } = settings.current;
     
+    // Default authoritative sources if none provided
     const sourcesToCheck = validatedArgs.sources && validatedArgs.sources.length > 0 
       ? validatedArgs.sources 
-      : defaultSources;
+      : sources.factChecker;
 
     const factCheckResults = {
       claim: validatedArgs.claim,
       sourcesToCheck: sourcesToCheck,
       confidenceThreshold: validatedArgs.confidenceThreshold || 0.7,
-      timeframe: validatedArgs.timeframe || 'y1',
-      maxResults: validatedArgs.maxResults || 3,
+      timeframe: validatedArgs.timeframe || timeframes.fact_checker,
+      maxResults: validatedArgs.maxResults || limits.fact_checker.maxResults,
       includeEvidence: validatedArgs.includeEvidence !== false,
       verification: {
         status: 'unknown' as 'verified' | 'disputed' | 'unverified' | 'unknown',
@@ -1208,8 +1919,8 @@ class GoogleSearchMCPServer {
         disputingSources: [] as string[],
         neutralSources: [] as string[],
       },
-      sources: [] as any[],
-      evidence: [] as any[],
+      sources: [] as FactCheckSource[],
+      evidence: [] as FactCheckReport['evidence'],
       statistics: {
         totalSourcesChecked: sourcesToCheck.length,
         successfulSearches: 0,
@@ -1219,86 +1930,130 @@ class GoogleSearchMCPServer {
       },
     };
 
-    // Search each source for the claim
-    for (const source of sourcesToCheck) {
-      try {
-        const params: Record<string, string> = {
-          key: config.GOOGLE_API_KEY,
-          cx: config.GOOGLE_CSE_ID,
-          q: validatedArgs.claim,
-          siteSearch: source,
-          num: String(validatedArgs.maxResults || 3),
-          dateRestrict: validatedArgs.timeframe || 'y1',
-        };
+    const concurrency = validatedArgs.concurrency || limits.fact_checker.concurrency || config.MAX_CONCURRENCY;
 
-        const response = await axios.get('https://www.googleapis.com/customsearch/v1', {
-          params,
-          timeout: 10000,
-        });
+    // Search every source for the claim in parallel
+    progress.setTotal(sourcesToCheck.length);
+    const searchOutcomes = await allSettledWithConcurrency(
+      sourcesToCheck,
+      concurrency,
+      async source => {
+        try {
+          return await this.search({
+            query: validatedArgs.claim,
+            siteSearch: source,
+            num: validatedArgs.maxResults || limits.fact_checker.maxResults,
+            dateRestrict: validatedArgs.timeframe || timeframes.fact_checker,
+          }, { provider: validatedArgs.provider, cseProfile: validatedArgs.cseProfile, bypassCache: validatedArgs.bypassCache, signal });
+        } finally {
+          progress.advance(`Searched ${source}`);
+        }
+      },
+      signal
+    );
 
-        const results = response.data.items || [];
+    // Collect search results in source order, queueing pages for evidence extraction
+    const evidenceTargets: { source: string; link: string; title: string }[] = [];
+    searchOutcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected' && outcome.reason instanceof CancelledError) return;
+      const source = sourcesToCheck[index];
+      if (outcome.status === 'fulfilled') {
+        const data = outcome.value;
+        const results = data.items;
         factCheckResults.statistics.successfulSearches++;
         factCheckResults.statistics.totalResults += results.length;
 
         if (results.length > 0) {
-          const sourceResults = {
-            source,
-            resultCount: results.length,
-            totalAvailable: response.data.searchInformation?.totalResults || '0',
-            results: results.map((item: any) => ({
+          const scoredResults = results.map(item => {
+            const credibility = credibilityEngine.assess(item.link);
+            return {
               title: item.title,
               link: item.link,
               snippet: item.snippet,
               displayLink: item.displayLink,
               relevanceScore: this.calculateRelevanceScore(validatedArgs.claim, item.snippet),
-            })),
-            credibilityScore: this.calculateCredibilityScore(source),
+              credibilityScore: credibility.score,
+              credibilityReason: credibility.reason,
+            };
+          });
+          const sourceResults = {
+            source,
+            resultCount: results.length,
+            totalAvailable: data.totalResults,
+            items: scoredResults,
+            credibilityScore: this.averageCredibility(scoredResults),
           };
 
           factCheckResults.sources.push(sourceResults);
 
           // Extract evidence if requested
           if (validatedArgs.includeEvidence) {
-            for (const result of results) {
-              try {
-                const evidenceResult = await this.extractEvidenceFromUrl(result.link, validatedArgs.claim);
-                if (evidenceResult.success && evidenceResult.evidence) {
-                  factCheckResults.evidence.push({
-                    source,
-                    url: result.link,
-                    title: result.title,
-                    evidence: evidenceResult.evidence,
-                    relevanceScore: evidenceResult.relevanceScore,
-                    sentiment: evidenceResult.sentiment,
-                  });
-                  factCheckResults.verification.evidenceCount++;
-                }
-              } catch (error) {
-                // Continue with other evidence extraction attempts
-              }
-            }
+            evidenceTargets.push(...results.map(result => ({ source, link: result.link, title: result.title })));
           }
         }
-      } catch (error) {
+      } else {
         factCheckResults.statistics.failedSearches++;
         factCheckResults.sources.push({
           source,
-          error: error instanceof Error ? error.message : 'Search failed',
+          error: outcome.reason instanceof Error ? outcome.reason.message : 'Search failed',
         });
       }
-    }
+    });
+
+    // Fetch evidence pages in parallel; evidence keeps source-then-result order
+    progress.setTotal(sourcesToCheck.length + evidenceTargets.length);
+    const evidenceOutcomes = await allSettledWithConcurrency(
+      evidenceTargets,
+      concurrency,
+      async target => {
+        try {
+          return await this.extractEvidenceFromUrl(target.link, validatedArgs.claim, { bypassCache: validatedArgs.bypassCache, signal });
+        } finally {
+          progress.advance(`Checked evidence from ${target.source}: ${target.link}`);
+        }
+      },
+      signal
+    );
+
+    evidenceOutcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected' && outcome.reason instanceof CancelledError) return;
+      const target = evidenceTargets[index];
+      if (outcome.status === 'rejected') {
+        // Continue with other evidence extraction attempts
+        logger.warn('Evidence extraction failed', { url: target.link, ...errorFields(outcome.reason) });
+        return;
+      }
+
+      const evidenceResult = outcome.value;
+      if (evidenceResult.success && evidenceResult.evidence) {
+        const credibility = credibilityEngine.assess(target.link);
+        factCheckResults.evidence.push({
+          source: target.source,
+          url: target.link,
+          title: target.title,
+          evidence: evidenceResult.evidence,
+          relevanceScore: evidenceResult.relevanceScore,
+          credibilityScore: credibility.score,
+          credibilityReason: credibility.reason,
+          sentiment: evidenceResult.sentiment,
+          ...evidenceResult.attribution,
+        });
+        factCheckResults.verification.evidenceCount++;
+      } else {
+        logger.debug('No evidence extracted', { url: target.link, reason: evidenceResult.error });
+      }
+    });
 
     // Analyze verification status
     this.analyzeVerificationStatus(factCheckResults);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(factCheckResults, null, 2),
-        },
-      ],
-    };
+    const report = { ...factCheckResults, ...this.partialFields(signal) };
+    const resourceUri = this.storeResult('factcheck', currentRequestId() || newRequestId(), {
+      name: `Fact check: ${validatedArgs.claim}`,
+      description: `Verdict: ${factCheckResults.verification.status} (confidence ${factCheckResults.verification.confidence.toFixed(2)})`,
+    }, report);
+
+    return { ...report, resourceUri, circuitBreaker: searchBreaker.snapshot() };
   }
 
   private calculateRelevanceScore(claim: string, snippet: string): number {
@@ -1315,42 +2070,34 @@ class GoogleSearchMCPServer {
     return Math.min(matches / claimWords.length, 1.0);
   }
 
-  private calculateCredibilityScore(source: string): number {
-    const credibilityMap: { [key: string]: number } = {
-      'wikipedia.org': 0.8,
-      'bbc.com': 0.9,
-      'reuters.com': 0.9,
-      'ap.org': 0.9,
-      'factcheck.org': 0.95,
-      'snopes.com': 0.9,
-      'politifact.com': 0.9,
-      'scholar.google.com': 0.95,
-      'pubmed.ncbi.nlm.nih.gov': 0.95,
-      'nature.com': 0.9,
-      'science.org': 0.9,
-      'nejm.org': 0.95,
-      'who.int': 0.9,
-      'cdc.gov': 0.9,
-      'nih.gov': 0.9,
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  // Authors, publisher and publication date of a page, for evidence and findings
+  private attribution(metadata: PageMetadata): { authors: string[]; publisher?: string; publishedAt?: string } {
+    return {
+      authors: metadata.authors,
+      ...(metadata.publisher && { publisher: metadata.publisher }),
+      ...(metadata.publishedAt && { publishedAt: metadata.publishedAt }),
     };
-    
-    return credibilityMap[source] || 0.5;
   }
 
-  private async extractEvidenceFromUrl(url: string, claim: string) {
-    try {
-      const response = await axios.get(url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; GoogleSearchMCP/1.0)',
-        },
-      });
+  // A source's score is the mean of the scores of the results it returned
+  private averageCredibility(results: { credibilityScore: number }[]): number {
+    return results.reduce((sum, result) => sum + result.credibilityScore, 0) / results.length;
+  }
+
 
-      const $ = cheerio.load(response.data);
-      const content = $('main').text() || $('article').text() || $('body').text();
+  private async extractEvidenceFromUrl(url: string, claim: string, options: RequestOptions = {}) {
+    try {
+      const { paragraphs, metadata } = await this.readPage(url, options);
       
-      // Find sentences that contain claim-related keywords
-      const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 20);
+      // Find sentences that contain claim-related keywords, never across paragraphs
+      const sentences = paragraphs
+        .flatMap(paragraph => paragraph.split(/[.!?]+/))
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence.length > 20);
       const claimWords = claim.toLowerCase().split(/\s+/).filter(w => w.length > 3);
       
       const relevantSentences = sentences.filter(sentence => {
@@ -1371,11 +2118,13 @@ class GoogleSearchMCPServer {
             score: sentimentResult.score,
             comparative: sentimentResult.comparative,
           },
+          attribution: this.attribution(metadata),
         };
       }
       
       return { success: false, error: 'No relevant evidence found' };
     } catch (error) {
+      if (error instanceof CancelledError) throw error;
       return { 
         success: false, 
         error: error instanceof Error ? error.message : 'Unknown error' 
@@ -1383,7 +2132,7 @@ class GoogleSearchMCPServer {
     }
   }
 
-  private analyzeVerificationStatus(factCheckResults: any) {
+  private analyzeVerificationStatus(factCheckResults: Pick<FactCheckReport, 'verification' | 'sources' | 'evidence' | 'confidenceThreshold'>) {
     const { verification, sources, evidence } = factCheckResults;
     
     let supportingCount = 0;
@@ -1393,13 +2142,13 @@ class GoogleSearchMCPServer {
     let totalRelevance = 0;
     let sourceCount = 0;
 
-    sources.forEach((source: any) => {
-      if (source.results && source.results.length > 0) {
+    sources.forEach(source => {
+      if ('items' in source && source.items.length > 0) {
         sourceCount++;
         totalCredibility += source.credibilityScore || 0.5;
         
         // Analyze sentiment of results
-        source.results.forEach((result: any) => {
+        source.items.forEach(result => {
           totalRelevance += result.relevanceScore || 0;
           
           // Simple sentiment analysis based on keywords
@@ -1440,8 +2189,9 @@ class GoogleSearchMCPServer {
     verification.neutralSources = [...new Set(verification.neutralSources)];
   }
 
-  private async handleResearchAssistant(args: unknown) {
+  private async handleResearchAssistant(args: unknown, { progress, signal }: ToolContext): Promise<ResearchReport> {
     const validatedArgs = researchAssistantSchema.parse(args);
+    const { timeframes, limits } = settings.current;
     
     // Define source categories based on research type
     const sourceCategories = this.getSourceCategories(validatedArgs.researchType || 'comprehensive');
@@ -1449,12 +2199,13 @@ class GoogleSearchMCPServer {
     // Filter sources based on include/exclude lists
     const sourcesToUse = this.filterSources(sourceCategories, validatedArgs.sources, validatedArgs.excludeSources);
     
-    const researchResults = {
+    const researchResults: ResearchResults = {
       researchTopic: validatedArgs.researchTopic,
       researchType: validatedArgs.researchType || 'comprehensive',
+      searchProvider: validatedArgs.provider || config.SEARCH_PROVIDER,
       depth: validatedArgs.depth || 'standard',
-      timeframe: validatedArgs.timeframe || 'y1',
-      maxSourcesPerType: validatedArgs.maxSourcesPerType || 5,
+      timeframe: validatedArgs.timeframe || timeframes.research_assistant,
+      maxSourcesPerType: validatedArgs.maxSourcesPerType || limits.research_assistant.maxSourcesPerType,
       includeCitations: validatedArgs.includeCitations !== false,
       generateReport: validatedArgs.generateReport !== false,
       focusAreas: validatedArgs.focusAreas || [],
@@ -1465,9 +2216,9 @@ class GoogleSearchMCPServer {
         currentStep: '',
       },
       sourceCategories: Object.keys(sourcesToUse),
-      findings: [] as any[],
-      sources: [] as any[],
-      citations: [] as any[],
+      findings: [] as ResearchFinding[],
+      sources: [] as ResearchSource[],
+      citations: [] as Citation[],
       synthesis: {
         keyFindings: [] as string[],
         conflictingInformation: [] as string[],
@@ -1475,31 +2226,53 @@ class GoogleSearchMCPServer {
         gapsInKnowledge: [] as string[],
         confidenceLevel: 0,
       },
-      report: null as any,
+      report: null as WrittenReport | null,
       statistics: {
         totalSourcesSearched: 0,
         successfulSearches: 0,
         failedSearches: 0,
         totalResults: 0,
+        duplicatesMerged: 0,
         averageCredibilityScore: 0,
         researchQualityScore: 0,
       },
     };
 
+    // Shared by all categories: search results are merged on their canonical
+    // URL, fetched pages again on the URL they declare with rel=canonical
+    const mergers = { results: new DuplicateMerger(), pages: new DuplicateMerger() };
+
+    // Mirror each workflow transition to the caller as a progress notification
+    const enterStep = (phase: string, currentStep: string) => {
+      researchResults.researchWorkflow.phase = phase;
+      researchResults.researchWorkflow.currentStep = currentStep;
+      progress.update(currentStep);
+    };
+
+    // One step per source category, plus analysis, synthesis and the optional phases
+    progress.setTotal(
+      Object.keys(sourcesToUse).length + 2 +
+      (validatedArgs.includeCitations ? 1 : 0) +
+      (validatedArgs.generateReport ? 1 : 0)
+    );
+
     // Phase 1: Multi-source research
-    researchResults.researchWorkflow.phase = 'multi_source_research';
     researchResults.researchWorkflow.totalSteps = Object.keys(sourcesToUse).length;
     
     for (const [category, sources] of Object.entries(sourcesToUse)) {
-      researchResults.researchWorkflow.currentStep = `Researching ${category} sources`;
+      // Remaining categories are skipped once cancelled; later phases work on what was gathered
+      if (signal?.aborted) break;
+      enterStep('multi_source_research', `Researching ${category} sources`);
       researchResults.researchWorkflow.stepsCompleted++;
       
       const categoryResults = await this.researchCategory(
         validatedArgs.researchTopic,
         sources as string[],
         category,
-        validatedArgs.maxSourcesPerType || 5,
-        validatedArgs.timeframe || 'y1'
+        validatedArgs.maxSourcesPerType || limits.research_assistant.maxSourcesPerType,
+        validatedArgs.timeframe || timeframes.research_assistant,
+        mergers,
+        { provider: validatedArgs.provider, cseProfile: validatedArgs.cseProfile, bypassCache: validatedArgs.bypassCache, concurrency: validatedArgs.concurrency || limits.research_assistant.concurrency, signal }
       );
       
       researchResults.sources.push(...categoryResults.sources);
@@ -1508,84 +2281,65 @@ class GoogleSearchMCPServer {
       researchResults.statistics.successfulSearches += categoryResults.successfulSearches;
       researchResults.statistics.failedSearches += categoryResults.failedSearches;
       researchResults.statistics.totalResults += categoryResults.totalResults;
+      progress.complete();
     }
+    researchResults.statistics.duplicatesMerged = mergers.results.duplicatesRemoved + mergers.pages.duplicatesRemoved;
 
     // Phase 2: Content extraction and analysis
-    researchResults.researchWorkflow.phase = 'content_analysis';
-    researchResults.researchWorkflow.currentStep = 'Extracting and analyzing content';
+    enterStep('content_analysis', 'Extracting and analyzing content');
     
     const analysisResults = await this.analyzeResearchContent(researchResults.findings, validatedArgs.focusAreas);
     researchResults.findings = analysisResults.findings;
     researchResults.statistics.averageCredibilityScore = analysisResults.averageCredibilityScore;
+    progress.complete();
 
     // Phase 3: Synthesis and cross-reference analysis
-    researchResults.researchWorkflow.phase = 'synthesis';
-    researchResults.researchWorkflow.currentStep = 'Synthesizing findings across sources';
+    enterStep('synthesis', 'Synthesizing findings across sources');
     
     const synthesisResults = await this.synthesizeResearchFindings(researchResults.findings, researchResults.sources);
     researchResults.synthesis = synthesisResults;
+    progress.complete();
 
     // Phase 4: Citation management
     if (validatedArgs.includeCitations) {
-      researchResults.researchWorkflow.phase = 'citation_management';
-      researchResults.researchWorkflow.currentStep = 'Managing citations and references';
+      enterStep('citation_management', 'Managing citations and references');
       
       researchResults.citations = this.generateCitations(researchResults.sources, researchResults.findings);
+      progress.complete();
     }
 
     // Phase 5: Report generation
     if (validatedArgs.generateReport) {
-      researchResults.researchWorkflow.phase = 'report_generation';
-      researchResults.researchWorkflow.currentStep = 'Generating structured research report';
+      enterStep('report_generation', 'Generating structured research report');
       
       researchResults.report = this.generateResearchReport(researchResults, validatedArgs.focusAreas);
+      progress.complete();
     }
 
     // Calculate final statistics
     researchResults.statistics.researchQualityScore = this.calculateResearchQualityScore(researchResults);
-    researchResults.researchWorkflow.phase = 'completed';
-    researchResults.researchWorkflow.stepsCompleted = researchResults.researchWorkflow.totalSteps;
-    researchResults.researchWorkflow.currentStep = 'Research completed';
+    if (signal?.aborted) {
+      enterStep('cancelled', `Research cancelled: ${cancellationReason(signal)}`);
+    } else {
+      researchResults.researchWorkflow.stepsCompleted = researchResults.researchWorkflow.totalSteps;
+      enterStep('completed', 'Research completed');
+    }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(researchResults, null, 2),
-        },
-      ],
-    };
+    const report = { ...researchResults, ...this.partialFields(signal) };
+    const resourceUri = this.storeResult('research', currentRequestId() || newRequestId(), {
+      name: `Research: ${validatedArgs.researchTopic}`,
+      description: `${researchResults.researchType} research, ${researchResults.findings.length} findings from ${researchResults.statistics.totalSourcesSearched} sources`,
+    }, report);
+
+    return { ...report, resourceUri, circuitBreaker: searchBreaker.snapshot() };
   }
 
   private getSourceCategories(researchType: string): { [key: string]: string[] } {
-    const categories = {
-      academic: {
-        'Academic Journals': ['scholar.google.com', 'pubmed.ncbi.nlm.nih.gov', 'nature.com', 'science.org', 'nejm.org'],
-        'Educational': ['wikipedia.org', 'edu', 'mit.edu', 'stanford.edu'],
-        'Research': ['arxiv.org', 'researchgate.net', 'academia.edu'],
-      },
-      news: {
-        'News Sources': ['bbc.com', 'reuters.com', 'ap.org', 'cnn.com', 'nytimes.com'],
-        'Fact Checkers': ['factcheck.org', 'snopes.com', 'politifact.com'],
-        'International': ['guardian.com', 'dw.com', 'france24.com'],
-      },
-      factual: {
-        'Government': ['who.int', 'cdc.gov', 'nih.gov', 'gov', 'europa.eu'],
-        'Scientific': ['nature.com', 'science.org', 'pubmed.ncbi.nlm.nih.gov'],
-        'Reference': ['wikipedia.org', 'britannica.com', 'encyclopedia.com'],
-      },
-      comprehensive: {
-        'Academic': ['scholar.google.com', 'pubmed.ncbi.nlm.nih.gov', 'nature.com', 'science.org'],
-        'News': ['bbc.com', 'reuters.com', 'ap.org', 'factcheck.org'],
-        'Government': ['who.int', 'cdc.gov', 'nih.gov'],
-        'Reference': ['wikipedia.org', 'britannica.com'],
-        'Specialized': ['arxiv.org', 'researchgate.net'],
-      },
-    };
-    
-    return categories[researchType as keyof typeof categories] || categories.comprehensive;
+    const categories = settings.current.sources.researchCategories;
+    return categories[researchType as ResearchType] || categories.comprehensive;
   }
 
+
   private filterSources(
     sourceCategories: { [key: string]: string[] },
     includeSources?: string[],
@@ -1623,91 +2377,139 @@ class GoogleSearchMCPServer {
     sources: string[],
     category: string,
     maxSources: number,
-    timeframe: string
+    timeframe: string,
+    mergers: { results: DuplicateMerger; pages: DuplicateMerger },
+    options: RequestOptions = {}
   ) {
     const categoryResults = {
       category,
-      sources: [] as any[],
-      findings: [] as any[],
+      sources: [] as ResearchSource[],
+      findings: [] as ResearchFinding[],
       successfulSearches: 0,
       failedSearches: 0,
       totalResults: 0,
     };
 
-    for (const source of sources.slice(0, maxSources)) {
-      try {
-        const params: Record<string, string> = {
-          key: config.GOOGLE_API_KEY,
-          cx: config.GOOGLE_CSE_ID,
-          q: topic,
-          siteSearch: source,
-          num: '5',
-          dateRestrict: timeframe,
-        };
-
-        const response = await axios.get('https://www.googleapis.com/customsearch/v1', {
-          params,
-          timeout: 10000,
-        });
+    const limits = settings.current.limits.research_assistant;
+    const concurrency = options.concurrency || config.MAX_CONCURRENCY;
+    const sourcesToSearch = sources.slice(0, maxSources);
+
+    // Search the category's sources in parallel
+    const searchOutcomes = await allSettledWithConcurrency(
+      sourcesToSearch,
+      concurrency,
+      source => this.search({
+        query: topic,
+        siteSearch: source,
+        num: limits.resultsPerSource,
+        dateRestrict: timeframe,
+      }, options),
+      options.signal
+    );
 
-        const results = response.data.items || [];
+    const extractionTargets: { source: string; link: string; title: string; sources: SourceRecord[] }[] = [];
+    searchOutcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected' && outcome.reason instanceof CancelledError) return;
+      const source = sourcesToSearch[index];
+      if (outcome.status === 'fulfilled') {
+        const data = outcome.value;
+        const results = mergers.results.add(source, data.items);
         categoryResults.successfulSearches++;
         categoryResults.totalResults += results.length;
 
         if (results.length > 0) {
-          const sourceResult = {
-            source,
-            category,
-            resultCount: results.length,
-            totalAvailable: response.data.searchInformation?.totalResults || '0',
-            results: results.map((item: any) => ({
+          const scoredResults = results.map(item => {
+            const credibility = credibilityEngine.assess(item.link, category);
+            return {
               title: item.title,
               link: item.link,
               snippet: item.snippet,
               displayLink: item.displayLink,
               relevanceScore: this.calculateRelevanceScore(topic, item.snippet),
-            })),
-            credibilityScore: this.calculateCredibilityScore(source),
+              credibilityScore: credibility.score,
+              credibilityReason: credibility.reason,
+              canonicalUrl: item.canonicalUrl,
+              sources: item.sources,
+            };
+          });
+          const sourceResult = {
+            source,
+            category,
+            resultCount: results.length,
+            totalAvailable: data.totalResults,
+            items: scoredResults,
+            credibilityScore: this.averageCredibility(scoredResults),
           };
 
           categoryResults.sources.push(sourceResult);
 
-          // Extract content for analysis
-          for (const result of results.slice(0, 2)) { // Limit to 2 per source for performance
-            try {
-              const contentResult = await this.extractContentFromUrl(result.link);
-              if (contentResult.success && contentResult.data) {
-                categoryResults.findings.push({
-                  source,
-                  category,
-                  url: result.link,
-                  title: result.title,
-                  content: contentResult.data.content,
-                  wordCount: contentResult.data.wordCount,
-                  sentiment: contentResult.data.sentiment,
-                  relevanceScore: this.calculateRelevanceScore(topic, contentResult.data.content),
-                  extractionTime: new Date().toISOString(),
-                });
-              }
-            } catch (error) {
-              // Continue with other extractions
-            }
-          }
+          // Queue content extraction for analysis
+          const topResults = results.slice(0, limits.extractionsPerSource); // Limit per source for performance
+          extractionTargets.push(...topResults.map(result => ({ source, link: result.link, title: result.title, sources: result.sources })));
         }
-      } catch (error) {
+      } else {
         categoryResults.failedSearches++;
         categoryResults.sources.push({
           source,
           category,
-          error: error instanceof Error ? error.message : 'Search failed',
+          error: outcome.reason instanceof Error ? outcome.reason.message : 'Search failed',
         });
       }
-    }
+    });
+
+    // Extract content in parallel; findings keep source-then-result order
+    const extractionOutcomes = await allSettledWithConcurrency(
+      extractionTargets,
+      concurrency,
+      target => this.extractContentFromUrl(target.link, options),
+      options.signal
+    );
+
+    extractionOutcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected' && outcome.reason instanceof CancelledError) return;
+      const target = extractionTargets[index];
+      if (outcome.status === 'rejected') {
+        // Continue with other extractions
+        logger.warn('Content extraction failed', { url: target.link, ...errorFields(outcome.reason) });
+        return;
+      }
+
+      const contentResult = outcome.value;
+      if (contentResult.success && contentResult.data) {
+        const canonicalUrl = contentResult.data.canonicalUrl || canonicalizeUrl(target.link);
+        const sources = mergers.pages.claim(canonicalUrl, target.sources);
+        if (!sources) {
+          logger.debug('Duplicate page merged', { url: target.link, canonicalUrl });
+          return;
+        }
+        const credibility = credibilityEngine.assess(target.link, category);
+        categoryResults.findings.push({
+          source: target.source,
+          category,
+          url: target.link,
+          title: target.title,
+          // The start of the text, cut between paragraphs or sentences; the
+          // whole page is counted and scored
+          content: chunkContent(contentResult.data.text, 'text', FINDING_CONTENT_SIZE)[0].content,
+          wordCount: contentResult.data.wordCount,
+          sentiment: contentResult.data.sentiment,
+          relevanceScore: this.calculateRelevanceScore(topic, contentResult.data.text),
+          credibilityScore: credibility.score,
+          credibilityReason: credibility.reason,
+          extractionTime: new Date().toISOString(),
+          ...this.attribution(contentResult.data.metadata),
+          canonicalUrl,
+          sources,
+        });
+      } else {
+        logger.debug('Content extraction returned no finding', { url: target.link, reason: contentResult.error });
+      }
+    });
 
     return categoryResults;
   }
 
-  private async analyzeResearchContent(findings: any[], focusAreas?: string[]) {
+  private async analyzeResearchContent(findings: ResearchFinding[], focusAreas?: string[]) {
     let totalCredibility = 0;
     let analyzedCount = 0;
 
@@ -1723,7 +2525,7 @@ class GoogleSearchMCPServer {
       // Calculate content quality score
       finding.contentQualityScore = this.calculateContentQualityScore(finding);
       
-      totalCredibility += finding.relevanceScore || 0;
+      totalCredibility += finding.credibilityScore || 0;
       analyzedCount++;
     }
 
@@ -1782,7 +2584,7 @@ class GoogleSearchMCPServer {
     return insights;
   }
 
-  private calculateContentQualityScore(finding: any): number {
+  private calculateContentQualityScore(finding: ResearchFinding): number {
     let score = 0;
     
     // Word count factor (optimal range: 200-2000 words)
@@ -1799,7 +2601,7 @@ class GoogleSearchMCPServer {
     return Math.min(score, 1.0);
   }
 
-  private async synthesizeResearchFindings(findings: any[], sources: any[]) {
+  private async synthesizeResearchFindings(findings: ResearchFinding[], sources: ResearchSource[]): Promise<Synthesis> {
     const synthesis = {
       keyFindings: [] as string[],
       conflictingInformation: [] as string[],
@@ -1832,8 +2634,8 @@ class GoogleSearchMCPServer {
     return synthesis;
   }
 
-  private groupFindingsByTopic(findings: any[]): { [key: string]: any[] } {
-    const groups: { [key: string]: any[] } = {};
+  private groupFindingsByTopic(findings: ResearchFinding[]): { [key: string]: ResearchFinding[] } {
+    const groups: { [key: string]: ResearchFinding[] } = {};
     
     for (const finding of findings) {
       const topic = this.extractMainTopic(finding.content);
@@ -1865,7 +2667,7 @@ class GoogleSearchMCPServer {
     return sortedWords.join(' ');
   }
 
-  private analyzeTopicGroup(findings: any[]): {
+  private analyzeTopicGroup(findings: ResearchFinding[]): {
     consensus: string | null;
     conflicts: string[];
     keyFindings: string[];
@@ -1886,29 +2688,35 @@ class GoogleSearchMCPServer {
     };
   }
 
-  private calculateSynthesisConfidence(findings: any[], sources: any[]): number {
+  private calculateSynthesisConfidence(findings: ResearchFinding[], sources: ResearchSource[]): number {
     if (findings.length === 0) return 0;
     
     const avgRelevance = findings.reduce((sum, f) => sum + (f.relevanceScore || 0), 0) / findings.length;
-    const avgCredibility = sources.reduce((sum, s) => sum + (s.credibilityScore || 0.5), 0) / sources.length;
+    const avgCredibility = sources.reduce((sum, s) => sum + (('credibilityScore' in s && s.credibilityScore) || 0.5), 0) / sources.length;
     const sourceDiversity = new Set(sources.map(s => s.category)).size / Math.max(sources.length, 1);
     
     return (avgRelevance * 0.4 + avgCredibility * 0.4 + sourceDiversity * 0.2);
   }
 
-  private generateCitations(sources: any[], findings: any[]): any[] {
-    const citations: any[] = [];
+  private generateCitations(sources: ResearchSource[], findings: ResearchFinding[]): Citation[] {
+    const citations: Citation[] = [];
+    // Pages read for a finding also give the citation its authors and date
+    const findingsByUrl = new Map(findings.map(finding => [finding.url, finding]));
     
     for (const source of sources) {
-      if (source.results) {
-        for (const result of source.results) {
+      if ('items' in source) {
+        for (const result of source.items) {
+          const finding = findingsByUrl.get(result.link);
           citations.push({
             title: result.title,
             url: result.link,
             source: source.source,
             category: source.category,
-            credibilityScore: source.credibilityScore,
+            credibilityScore: result.credibilityScore,
+            credibilityReason: result.credibilityReason,
             relevanceScore: result.relevanceScore,
+            ...(finding && { authors: finding.authors }),
+            ...(finding?.publishedAt && { publishedAt: finding.publishedAt }),
             accessedDate: new Date().toISOString(),
           });
         }
@@ -1918,7 +2726,7 @@ class GoogleSearchMCPServer {
     return citations.sort((a, b) => (b.credibilityScore + b.relevanceScore) - (a.credibilityScore + a.relevanceScore));
   }
 
-  private generateResearchReport(researchResults: any, focusAreas?: string[]): any {
+  private generateResearchReport(researchResults: ResearchResults, focusAreas?: string[]): WrittenReport {
     const report = {
       title: `Research Report: ${researchResults.researchTopic}`,
       executiveSummary: this.generateExecutiveSummary(researchResults),
@@ -1941,22 +2749,22 @@ class GoogleSearchMCPServer {
     return report;
   }
 
-  private generateExecutiveSummary(researchResults: any): string {
+  private generateExecutiveSummary(researchResults: ResearchResults): string {
     const keyFindings = researchResults.synthesis.keyFindings.slice(0, 3);
     const consensusPoints = researchResults.synthesis.consensusPoints.slice(0, 2);
     
     return `This research on "${researchResults.researchTopic}" analyzed ${researchResults.statistics.totalSourcesSearched} sources across ${researchResults.sourceCategories.length} categories. Key findings include: ${keyFindings.join('; ')}. Consensus points: ${consensusPoints.join('; ')}. Overall confidence level: ${(researchResults.synthesis.confidenceLevel * 100).toFixed(1)}%.`;
   }
 
-  private generateMethodologySection(researchResults: any): string {
-    return `Research methodology involved systematic search across ${researchResults.sourceCategories.join(', ')} sources using Google Custom Search API. Search parameters included timeframe: ${researchResults.timeframe}, maximum sources per category: ${researchResults.maxSourcesPerType}. Content extraction and analysis included sentiment analysis, relevance scoring, and credibility assessment.`;
+  private generateMethodologySection(researchResults: ResearchResults): string {
+    return `Research methodology involved systematic search across ${researchResults.sourceCategories.join(', ')} sources using the ${researchResults.searchProvider === 'searxng' ? 'SearxNG' : 'Google Custom Search'} API. Search parameters included timeframe: ${researchResults.timeframe}, maximum sources per category: ${researchResults.maxSourcesPerType}. Content extraction and analysis included sentiment analysis, relevance scoring, and credibility assessment.`;
   }
 
-  private generateFindingsSection(researchResults: any, focusAreas?: string[]): string {
+  private generateFindingsSection(researchResults: ResearchResults, focusAreas?: string[]): string {
     const findings = researchResults.findings.slice(0, 5);
     let findingsText = 'Key findings from the research:\n';
     
-    findings.forEach((finding: any, index: number) => {
+    findings.forEach((finding, index) => {
       findingsText += `${index + 1}. ${finding.title} (${finding.source}): ${finding.keyInsights?.[0] || 'No key insights extracted'}\n`;
     });
     
@@ -1967,12 +2775,12 @@ class GoogleSearchMCPServer {
     return findingsText;
   }
 
-  private generateSynthesisSection(researchResults: any): string {
+  private generateSynthesisSection(researchResults: ResearchResults): string {
     const synthesis = researchResults.synthesis;
     return `Synthesis of findings reveals ${synthesis.consensusPoints.length} consensus points and ${synthesis.conflictingInformation.length} areas of conflicting information. Key findings: ${synthesis.keyFindings.slice(0, 3).join('; ')}.`;
   }
 
-  private generateRecommendationsSection(researchResults: any): string {
+  private generateRecommendationsSection(researchResults: ResearchResults): string {
     const confidence = researchResults.synthesis.confidenceLevel;
     if (confidence > 0.8) {
       return 'High confidence in findings. Recommendations can be made with strong evidence base.';
@@ -1983,11 +2791,11 @@ class GoogleSearchMCPServer {
     }
   }
 
-  private generateLimitationsSection(researchResults: any): string {
+  private generateLimitationsSection(researchResults: ResearchResults): string {
     return `Research limitations include: limited to publicly available sources, potential bias in source selection, time constraints (${researchResults.timeframe}), and reliance on automated content extraction. Quality score: ${(researchResults.statistics.researchQualityScore * 100).toFixed(1)}%.`;
   }
 
-  private calculateResearchQualityScore(researchResults: any): number {
+  private calculateResearchQualityScore(researchResults: ResearchResults): number {
     const sourceDiversity = researchResults.sourceCategories.length / 5; // Normalize to 5 categories
     const avgCredibility = researchResults.statistics.averageCredibilityScore;
     const synthesisConfidence = researchResults.synthesis.confidenceLevel;
@@ -1997,10 +2805,19 @@ class GoogleSearchMCPServer {
     return (sourceDiversity * 0.25 + avgCredibility * 0.25 + synthesisConfidence * 0.25 + findingsQuality * 0.25);
   }
 
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async close() {
+    this.unsubscribeResults();
+    await this.server.close();
+  }
+
   async run() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('Google Search MCP server running on stdio');
+    await this.connect(transport);
+    logger.info('Google Search MCP server running on stdio');
   }
 }
 
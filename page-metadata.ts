@@ -0,0 +1,300 @@
+import type { CheerioAPI } from 'cheerio';
+import { canonicalLink } from './canonical-url.js';
+import type { PdfMetadata } from './pdf-extractor.js';
+
+// Structured metadata of a page, normalized from whichever of its sources the
+// page provides: schema.org JSON-LD, OpenGraph and Twitter card tags, plain
+// and Highwire (citation_*) meta tags, and the markup itself. Each field is
+// taken from the most reliable source that has it, JSON-LD first.
+
+export const METADATA_SOURCES = ['json-ld', 'opengraph', 'twitter', 'meta', 'html', 'pdf'] as const;
+export type MetadataSource = typeof METADATA_SOURCES[number];
+
+export interface PageMetadata {
+  title?: string;
+  description?: string;
+  authors: string[];
+  publisher?: string;
+  // ISO 8601
+  publishedAt?: string;
+  modifiedAt?: string;
+  canonicalUrl?: string;
+  // BCP 47 language tag, such as en or pt-BR
+  language?: string;
+  // schema.org type or og:type, such as NewsArticle or article
+  type?: string;
+  image?: string;
+  keywords: string[];
+  // Sources that contributed at least one field
+  sources: MetadataSource[];
+}
+
+type MetadataFields = Partial<Omit<PageMetadata, 'sources'>>;
+
+// Meta tag values by lowercased name or property; citation_author repeats
+type MetaTags = Map<string, string[]>;
+
+// schema.org types describing an article, of which the page's own entry is
+// the first found; WebPage is the fallback for pages that are not articles
+const ARTICLE_TYPES = [
+  'Article', 'NewsArticle', 'ScholarlyArticle', 'MedicalScholarlyArticle', 'BlogPosting', 'LiveBlogPosting',
+  'TechArticle', 'Report', 'AnalysisNewsArticle', 'OpinionNewsArticle', 'ReportageNewsArticle',
+  'ReviewNewsArticle', 'BackgroundNewsArticle', 'SocialMediaPosting',
+];
+
+// Types by lowercased name, as Google's pagemap keys them
+const TYPE_NAMES = new Map([...ARTICLE_TYPES, 'WebPage'].map(type => [type.toLowerCase(), type]));
+
+// Fields in the order they are merged and returned
+const FIELDS: (keyof MetadataFields)[] = [
+  'title', 'description', 'authors', 'publisher', 'publishedAt', 'modifiedAt',
+  'canonicalUrl', 'language', 'type', 'image', 'keywords',
+];
+
+function clean(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function isoDate(value: unknown): string | undefined {
+  const text = clean(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// og:locale uses underscores (en_US), lang attributes hyphens
+function languageTag(value: unknown): string | undefined {
+  const tag = clean(value)?.split(/[,\s]/)[0].replace(/_/g, '-');
+  if (!tag || !/^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i.test(tag)) return undefined;
+  const [primary, ...rest] = tag.split('-');
+  return [primary.toLowerCase(), ...rest.map(part => (part.length === 2 ? part.toUpperCase() : part))].join('-');
+}
+
+// Author names without bylines' "By" and without profile URLs or handles,
+// which some sites put in author fields instead of a name
+function authorNames(values: string[]): string[] {
+  const names: string[] = [];
+  for (const value of values.flatMap(value => value.split(/\s*;\s*/))) {
+    const name = clean(value.replace(/^by\s+/i, ''));
+    if (!name || isUrl(name) || name.startsWith('@')) continue;
+    if (!names.some(existing => existing.toLowerCase() === name.toLowerCase())) names.push(name);
+  }
+  return names;
+}
+
+function keywordList(values: string[]): string[] {
+  const keywords = values.flatMap(value => value.split(',')).map(clean).filter((keyword): keyword is string => Boolean(keyword));
+  return [...new Set(keywords)];
+}
+
+// Field of a JSON-LD node. Google's pagemap entries carry the same fields
+// with lowercased names, so names are matched case-insensitively.
+function field(node: Record<string, unknown>, name: string): unknown {
+  if (name in node) return node[name];
+  const key = Object.keys(node).find(key => key.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : node[key];
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Text of a value that may be a string, a { name } or { @value } object, or a list of them
+function texts(value: unknown, key = 'name'): string[] {
+  return asArray(value).flatMap(item => {
+    if (item && typeof item === 'object') {
+      const object = item as Record<string, unknown>;
+      return texts(field(object, key) ?? object['@value']);
+    }
+    const text = clean(item);
+    return text ? [text] : [];
+  });
+}
+
+function types(node: Record<string, unknown>): string[] {
+  // Types may be full IRIs such as https://schema.org/NewsArticle
+  return texts(node['@type']).map(type => {
+    const name = type.replace(/^.*[/:#]/, '');
+    return TYPE_NAMES.get(name.toLowerCase()) || name;
+  });
+}
+
+// Every node of the page's JSON-LD, flattening lists and @graph containers
+function jsonLdNodes(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.flatMap(jsonLdNodes);
+  if (!value || typeof value !== 'object') return [];
+  const node = value as Record<string, unknown>;
+  return [node, ...jsonLdNodes(node['@graph'])];
+}
+
+function fromJsonLd(nodes: Record<string, unknown>[]): MetadataFields {
+  const article = nodes.find(node => types(node).some(type => ARTICLE_TYPES.includes(type)))
+    || nodes.find(node => types(node).includes('WebPage'));
+  if (!article) return {};
+
+  return {
+    title: texts(field(article, 'headline'))[0] || texts(field(article, 'name'))[0],
+    description: texts(field(article, 'description'))[0],
+    authors: authorNames(texts(field(article, 'author'))),
+    publisher: texts(field(article, 'publisher'))[0],
+    publishedAt: isoDate(texts(field(article, 'datePublished'))[0] || texts(field(article, 'dateCreated'))[0]),
+    modifiedAt: isoDate(texts(field(article, 'dateModified'))[0]),
+    language: languageTag(texts(field(article, 'inLanguage'))[0]),
+    type: types(article)[0],
+    image: texts(field(article, 'image'), 'url').find(isUrl),
+    keywords: keywordList(texts(field(article, 'keywords'))),
+  };
+}
+
+function fromOpenGraph(tags: MetaTags): MetadataFields {
+  const first = (name: string) => clean(tags.get(name)?.[0]);
+  return {
+    title: first('og:title'),
+    description: first('og:description'),
+    authors: authorNames(tags.get('article:author') || []),
+    publisher: first('og:site_name'),
+    publishedAt: isoDate(first('article:published_time')),
+    modifiedAt: isoDate(first('article:modified_time') || first('og:updated_time')),
+    canonicalUrl: [first('og:url')].find(url => url && isUrl(url)),
+    language: languageTag(first('og:locale')),
+    type: first('og:type'),
+    image: [first('og:image'), first('og:image:url')].find(url => url && isUrl(url)),
+    keywords: keywordList(tags.get('article:tag') || []),
+  };
+}
+
+// Twitter cards name the account rather than the author, so only the
+// descriptive fields are taken from them
+function fromTwitter(tags: MetaTags): MetadataFields {
+  const first = (name: string) => clean(tags.get(name)?.[0]);
+  return {
+    title: first('twitter:title'),
+    description: first('twitter:description'),
+    image: [first('twitter:image'), first('twitter:image:src')].find(url => url && isUrl(url)),
+  };
+}
+
+// Plain meta tags and the Highwire tags that scholarly publishers use
+function fromMetaTags(tags: MetaTags): MetadataFields {
+  const first = (...names: string[]) => names.map(name => clean(tags.get(name)?.[0])).find(Boolean);
+  const authors = tags.get('citation_author') || tags.get('author') || tags.get('dc.creator') || [];
+  return {
+    title: first('citation_title', 'dc.title'),
+    description: first('description', 'dc.description'),
+    authors: authorNames(authors),
+    publisher: first('citation_journal_title', 'citation_publisher', 'dc.publisher', 'publisher'),
+    publishedAt: isoDate(first('citation_publication_date', 'citation_date', 'dc.date', 'date', 'pubdate')),
+    language: languageTag(first('citation_language', 'dc.language', 'language')),
+    keywords: keywordList(tags.get('citation_keywords') || tags.get('keywords') || []),
+  };
+}
+
+// Each field from the first source that has it
+function merge(candidates: [MetadataSource, MetadataFields][]): PageMetadata {
+  const metadata: Record<string, unknown> = {};
+  const used = new Set<MetadataSource>();
+
+  for (const key of FIELDS) {
+    const found = candidates.find(([, fields]) => {
+      const value = fields[key];
+      return Array.isArray(value) ? value.length > 0 : value !== undefined;
+    });
+    if (found) {
+      metadata[key] = found[1][key];
+      used.add(found[0]);
+    }
+  }
+
+  return {
+    ...metadata,
+    authors: (metadata.authors as string[] | undefined) || [],
+    keywords: (metadata.keywords as string[] | undefined) || [],
+    sources: METADATA_SOURCES.filter(source => used.has(source)),
+  };
+}
+
+// Reads the page as parsed for content extraction, so it must run before the
+// extractor strips the head and scripts from it
+export function extractMetadata($: CheerioAPI, pageUrl: string): PageMetadata {
+  const tags: MetaTags = new Map();
+  $('meta[content]').each((_index, element) => {
+    const name = ($(element).attr('property') || $(element).attr('name') || $(element).attr('itemprop') || '').trim().toLowerCase();
+    const content = $(element).attr('content');
+    if (!name || content === undefined) return;
+    tags.set(name, [...(tags.get(name) || []), content]);
+  });
+
+  // A malformed script is skipped rather than failing the page
+  const nodes = $('script[type="application/ld+json"]').toArray().flatMap(script => {
+    try {
+      return jsonLdNodes(JSON.parse($(script).text()));
+    } catch {
+      return [];
+    }
+  });
+
+  // The canonical link outranks og:url, and the document's own language
+  // outranks any declared in tags
+  const markup: MetadataFields = {
+    canonicalUrl: canonicalLink($, pageUrl) || undefined,
+    language: languageTag($('html').attr('lang')),
+  };
+
+  return merge([
+    ['html', markup],
+    ['json-ld', fromJsonLd(nodes)],
+    ['opengraph', fromOpenGraph(tags)],
+    ['twitter', fromTwitter(tags)],
+    ['meta', fromMetaTags(tags)],
+  ]);
+}
+
+// Metadata of a search result from the page data Google returns with it: the
+// page's meta tags, and its schema.org entries keyed by lowercased type
+export function pagemapMetadata(pagemap: Record<string, unknown> | undefined): PageMetadata {
+  if (!pagemap) return merge([]);
+
+  const tags: MetaTags = new Map();
+  const metatags = asArray(pagemap.metatags)[0];
+  if (metatags && typeof metatags === 'object') {
+    for (const [name, value] of Object.entries(metatags)) {
+      const content = clean(value);
+      if (content) tags.set(name.toLowerCase(), [content]);
+    }
+  }
+
+  const nodes = Object.entries(pagemap)
+    .filter(([type]) => type !== 'metatags')
+    .flatMap(([type, entries]) => asArray(entries)
+      .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+      .map(entry => ({ '@type': type, ...entry })));
+
+  return merge([
+    ['json-ld', fromJsonLd(nodes)],
+    ['opengraph', fromOpenGraph(tags)],
+    ['twitter', fromTwitter(tags)],
+    ['meta', fromMetaTags(tags)],
+  ]);
+}
+
+// PDFs only have their document information: authors are listed in one
+// field, and the creation date stands in for the publication date
+export function pdfPageMetadata(pdf: PdfMetadata): PageMetadata {
+  return merge([
+    ['pdf', {
+      title: pdf.title,
+      description: pdf.subject,
+      authors: authorNames(pdf.author ? [pdf.author] : []),
+      publishedAt: pdf.creationDate,
+      keywords: keywordList(pdf.keywords ? pdf.keywords.split(';') : []),
+    }],
+  ]);
+}
@@ -0,0 +1,157 @@
+import { PDFDateString, VerbosityLevel, getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api.js';
+import { throwIfCancelled } from './cancellation.js';
+
+// Text extraction for PDF documents. pdf.js positions text runs on the page
+// without any notion of paragraphs, so runs are joined into lines by their
+// end-of-line markers and lines into paragraphs by the gaps between them.
+
+export interface PdfMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  // ISO 8601
+  creationDate?: string;
+}
+
+export interface PdfPage {
+  // 1-based page number
+  page: number;
+  // Paragraphs of the page, separated by blank lines
+  text: string;
+}
+
+export interface PdfDocument {
+  pageCount: number;
+  metadata: PdfMetadata;
+  pages: PdfPage[];
+  // Paragraphs of the whole document, in page order
+  paragraphs: string[];
+}
+
+// A gap between two baselines larger than this many line heights starts a new paragraph
+const PARAGRAPH_GAP = 1.5;
+
+const PDF_CONTENT_TYPES = ['application/pdf', 'application/x-pdf', 'application/acrobat'];
+
+// Servers often send PDFs as application/octet-stream or without a content
+// type, so for those the file signature is checked too. A page declared as
+// another type, such as text/html, is taken at its word even if it mentions %PDF-.
+export function isPdf(contentType: string | undefined, bytes: Buffer): boolean {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (PDF_CONTENT_TYPES.includes(type)) return true;
+  return (type === '' || type === 'application/octet-stream') && bytes.subarray(0, 1024).includes('%PDF-');
+}
+
+interface Line {
+  text: string;
+  y: number;
+  height: number;
+}
+
+function collectLines(items: TextItem[]): Line[] {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+
+  const endLine = () => {
+    if (current && current.text.trim()) {
+      lines.push({ ...current, text: current.text.replace(/\s+/g, ' ').trim() });
+    }
+    current = null;
+  };
+
+  for (const item of items) {
+    const y = item.transform[5];
+    // Runs on another baseline start a new line even without an end-of-line marker
+    if (current && Math.abs(y - current.y) > Math.max(1, current.height / 2)) endLine();
+    if (!current) current = { text: '', y, height: item.height };
+    current.text += item.str;
+    current.height = Math.max(current.height, item.height);
+    if (item.hasEOL) endLine();
+  }
+  endLine();
+  return lines;
+}
+
+// Join a line onto a paragraph, undoing hyphenation at the line break
+function joinLine(paragraph: string, line: string): string {
+  if (/[a-z]-$/.test(paragraph) && /^[a-z]/.test(line)) {
+    return paragraph.slice(0, -1) + line;
+  }
+  return `${paragraph} ${line}`;
+}
+
+function pageParagraphs(items: TextItem[]): string[] {
+  const paragraphs: string[] = [];
+  let previous: Line | null = null;
+
+  for (const line of collectLines(items)) {
+    const gap = previous ? Math.abs(previous.y - line.y) : 0;
+    if (previous && gap <= PARAGRAPH_GAP * Math.max(previous.height, line.height)) {
+      paragraphs[paragraphs.length - 1] = joinLine(paragraphs[paragraphs.length - 1], line.text);
+    } else {
+      paragraphs.push(line.text);
+    }
+    previous = line;
+  }
+  return paragraphs;
+}
+
+// XMP fields such as dc:creator can hold a list
+function textValue(value: unknown): string | undefined {
+  const text = Array.isArray(value) ? value.filter(part => typeof part === 'string').join('; ') : value;
+  return typeof text === 'string' && text.trim() ? text.trim() : undefined;
+}
+
+// PDF dates look like D:20240312093000+01'00'
+function creationDate(value: string | undefined): string | undefined {
+  return value ? isoDate(PDFDateString.toDateObject(value)) : undefined;
+}
+
+// XMP dates are already ISO 8601, but may omit the time or zone
+function isoDate(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export async function extractPdf(bytes: Buffer, signal?: AbortSignal): Promise<PdfDocument> {
+  const document = await getDocument({
+    data: new Uint8Array(bytes),
+    verbosity: VerbosityLevel.ERRORS,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+  }).promise;
+
+  try {
+    const { info, metadata: xmp } = await document.getMetadata();
+    const fields = (info || {}) as Record<string, unknown>;
+    // The document information dictionary, falling back to XMP metadata
+    const field = (key: string, xmpName: string) => textValue(fields[key]) || textValue(xmp?.get(xmpName));
+    const metadata: PdfMetadata = {
+      title: field('Title', 'dc:title'),
+      author: field('Author', 'dc:creator'),
+      subject: field('Subject', 'dc:description'),
+      keywords: field('Keywords', 'pdf:keywords'),
+      creationDate: creationDate(textValue(fields.CreationDate)) || isoDate(textValue(xmp?.get('xmp:createdate'))),
+    };
+
+    const pages: PdfPage[] = [];
+    const paragraphs: string[] = [];
+    for (let number = 1; number <= document.numPages; number++) {
+      throwIfCancelled(signal);
+      const page = await document.getPage(number);
+      const { items } = await page.getTextContent();
+      const text = pageParagraphs(items.filter((item): item is TextItem => 'str' in item));
+      pages.push({ page: number, text: text.join('\n\n') });
+      paragraphs.push(...text);
+      page.cleanup();
+    }
+
+    return { pageCount: document.numPages, metadata, pages, paragraphs };
+  } finally {
+    await document.destroy();
+  }
+}
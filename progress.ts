@@ -0,0 +1,54 @@
+import { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { errorFields, logger } from './logger.js';
+
+type SendNotification = (notification: ServerNotification) => Promise<void>;
+
+// Emits MCP progress notifications for one tool call. Without a progress token
+// from the caller every method is a no-op, so handlers can report unconditionally.
+export class ProgressReporter {
+  private progress = 0;
+
+  constructor(
+    private send: SendNotification,
+    private token?: ProgressToken,
+    private total?: number
+  ) {}
+
+  setTotal(total: number): void {
+    this.total = total;
+  }
+
+  // Count `steps` units of work as done and notify the caller
+  advance(message: string, steps = 1): void {
+    this.complete(steps);
+    this.notify(message);
+  }
+
+  // Count work as done without notifying; the next update carries the new position
+  complete(steps = 1): void {
+    this.progress += steps;
+  }
+
+  // Report the current position without counting new work, e.g. when a phase starts
+  update(message: string): void {
+    this.notify(message);
+  }
+
+  private notify(message: string): void {
+    if (this.token === undefined) return;
+
+    logger.debug('Progress', { progress: this.progress, total: this.total, message });
+    this.send({
+      method: 'notifications/progress',
+      params: {
+        progressToken: this.token,
+        progress: this.progress,
+        total: this.total,
+        message,
+      },
+    }).catch(error => {
+      // Progress is advisory; a closed transport must not fail the tool call
+      logger.debug('Progress notification failed', errorFields(error));
+    });
+  }
+}
@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+// Parameterized research workflows served through prompts/list and
+// prompts/get. Each template spells out which of this server's tools to call,
+// in what order and with which arguments, so clients do not have to.
+
+const DATE_RANGES = ['d1', 'd7', 'm1', 'm6', 'y1', 'y2'] as const;
+
+interface PromptTemplate<T extends z.ZodTypeAny> {
+  prompt: Prompt;
+  // Prompt arguments always arrive as strings
+  schema: T;
+  render(args: z.infer<T>): string;
+}
+
+function template<T extends z.ZodTypeAny>(definition: PromptTemplate<T>): PromptTemplate<T> {
+  return definition;
+}
+
+// Split a comma-separated argument such as "bbc.com, reuters.com"
+function list(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Render a value as it would appear in a tool call's JSON arguments
+function json(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+const templates: PromptTemplate<z.ZodTypeAny>[] = [
+  template({
+    prompt: {
+      name: 'verify_claim',
+      description: 'Verify a claim against authoritative sources and explain the verdict with evidence',
+      arguments: [
+        { name: 'claim', description: 'The claim or statement to verify (at least 10 characters)', required: true },
+        { name: 'timeframe', description: 'How far back to look: d1, d7, m1, m6, y1 or y2' },
+        { name: 'sources', description: 'Comma-separated domains to check instead of the default fact-checking sources' },
+      ],
+    },
+    schema: z.object({
+      claim: z.string().min(10),
+      timeframe: z.enum(DATE_RANGES).optional(),
+      sources: z.string().optional(),
+    }),
+    render: ({ claim, timeframe, sources }) => {
+      const sourceList = list(sources);
+      const factCheckArgs = {
+        claim,
+        includeEvidence: true,
+        ...(timeframe ? { timeframe } : {}),
+        ...(sourceList.length > 0 ? { sources: sourceList } : {}),
+      };
+      return [
+        `Verify this claim: "${claim}"`,
+        '',
+        'Work through these steps with the google-search tools:',
+        `1. Call \`fact_checker\` with ${json(factCheckArgs)}. Note the verification status, confidence and \`resourceUri\`.`,
+        '2. For the two or three pieces of evidence with the highest `credibilityScore`, call `extract_content` on their `url` and read the surrounding context, so a quote is not taken out of context.',
+        `3. If the status is \`unverified\` or \`unknown\`, or the sources disagree, call \`google_search\` with a query that states the opposite of the claim${timeframe ? ` and \`dateRestrict: "${timeframe}"\`` : ''} to look for counter-evidence.`,
+        '',
+        'Then answer with:',
+        '- **Verdict**: true, false, misleading or unproven, with your confidence',
+        '- **Evidence**: each supporting or disputing source with its URL, a short quote and its `credibilityReason`',
+        '- **Caveats**: missing context, outdated sources or disagreement between sources',
+        '- **Reference**: the `factcheck://` resource URI, so the verdict can be read again later',
+      ].join('\n');
+    },
+  }),
+  template({
+    prompt: {
+      name: 'literature_review',
+      description: 'Survey the academic literature on a topic and write a structured review',
+      arguments: [
+        { name: 'topic', description: 'Research topic or question (at least 10 characters)', required: true },
+        { name: 'timeframe', description: 'Publication window: d1, d7, m1, m6, y1 or y2 (default y2)' },
+        { name: 'focusAreas', description: 'Comma-separated aspects to focus on, e.g. "methodology, limitations" (up to 5)' },
+      ],
+    },
+    schema: z.object({
+      topic: z.string().min(10),
+      timeframe: z.enum(DATE_RANGES).default('y2'),
+      focusAreas: z.string().optional(),
+    }),
+    render: ({ topic, timeframe, focusAreas }) => {
+      const focus = list(focusAreas).slice(0, 5);
+      const researchArgs = {
+        researchTopic: topic,
+        researchType: 'academic',
+        depth: 'deep',
+        timeframe,
+        includeCitations: true,
+        generateReport: true,
+        ...(focus.length > 0 ? { focusAreas: focus } : {}),
+      };
+      return [
+        `Write a literature review on: ${topic}`,
+        '',
+        'Work through these steps with the google-search tools:',
+        `1. Call \`academic_search\` with ${json({ query: topic, dateRange: timeframe, maxResults: 10 })}, then again with \`"fileType": "pdf"\` to find full papers.`,
+        `2. Call \`research_assistant\` with ${json(researchArgs)} to gather findings, consensus points and citations across academic sources.`,
+        `3. Call \`content_summarizer\` on the URLs of the five most relevant papers from steps 1 and 2${focus.length > 0 ? ` with \`"focusAreas": ${json(focus)}\`` : ''}.`,
+        '',
+        'Then write the review with these sections:',
+        '- **Scope**: the question, the time window and how sources were found',
+        '- **Key themes**: the main lines of research, each backed by citations',
+        '- **Points of agreement and debate**: where studies converge and where they conflict',
+        '- **Gaps**: open questions and under-studied areas',
+        '- **References**: every cited work with title and URL, plus the `research://` resource URI of the report',
+        '',
+        'Cite only sources that the tools actually returned. Do not invent papers or authors.',
+      ].join('\n');
+    },
+  }),
+  template({
+    prompt: {
+      name: 'daily_news_brief',
+      description: "Brief the last day's news on a topic, with the main claims checked",
+      arguments: [
+        { name: 'topic', description: 'News topic to brief on', required: true },
+        { name: 'sources', description: 'Comma-separated news domains to monitor instead of the defaults' },
+        { name: 'country', description: 'Country code to focus on, e.g. "us" or "uk"' },
+      ],
+    },
+    schema: z.object({
+      topic: z.string().min(1),
+      sources: z.string().optional(),
+      country: z.string().optional(),
+    }),
+    render: ({ topic, sources, country }) => {
+      const sourceList = list(sources);
+      const newsArgs = {
+        topic,
+        dateRestrict: 'd1',
+        maxResults: 10,
+        ...(sourceList.length > 0 ? { sources: sourceList } : {}),
+        ...(country ? { country } : {}),
+      };
+      return [
+        `Prepare today's news brief on: ${topic}`,
+        '',
+        'Work through these steps with the google-search tools:',
+        `1. Call \`news_monitor\` with ${json(newsArgs)}.`,
+        '2. Group the articles into distinct stories, merging coverage of the same event from different outlets.',
+        '3. Call `content_summarizer` on one or two articles per story (at most 10 URLs) with `"maxLength": 100`.',
+        '4. For the most consequential factual claim in each story, call `fact_checker` with `"timeframe": "d7"`.',
+        '',
+        'Then write the brief:',
+        '- One headline and a two- or three-sentence summary per story, most important first',
+        '- Which outlets reported it, with links',
+        '- A note on any claim that `fact_checker` could not verify or found disputed',
+        '',
+        'Keep it under 400 words and leave out stories older than a day.',
+      ].join('\n');
+    },
+  }),
+  template({
+    prompt: {
+      name: 'competitive_scan',
+      description: 'Compare what a set of competitor sites publish about a topic',
+      arguments: [
+        { name: 'sites', description: 'Comma-separated competitor domains (up to 5)', required: true },
+        { name: 'topic', description: 'Product, feature or theme to compare', required: true },
+      ],
+    },
+    schema: z.object({
+      sites: z.string().refine(value => list(value).length > 0, 'At least one site is required'),
+      topic: z.string().min(1),
+    }),
+    render: ({ sites, topic }) => {
+      const siteList = list(sites).slice(0, 5);
+      const queries = [topic, `${topic} pricing`, `${topic} announcement`];
+      return [
+        `Run a competitive scan of ${siteList.join(', ')} on: ${topic}`,
+        '',
+        'Work through these steps with the google-search tools:',
+        `1. Call \`multi_site_search\` with ${json({ query: topic, sites: siteList, maxResults: 5 })}.`,
+        `2. Call \`search_analytics\` with ${json({ queries, timeRange: 'month' })} to see which competitors dominate recent results.`,
+        '3. Call `content_summarizer` on the most relevant page from each site, with `"focusAreas": ["features", "pricing", "positioning"]`.',
+        '',
+        'Then report:',
+        '- A comparison table with one row per site: positioning, key features, pricing (if published) and recent announcements',
+        '- What each competitor emphasizes that the others do not',
+        `- Sites with no relevant results for "${topic}"`,
+        '',
+        'Base every statement on the pages the tools returned, and link to them.',
+      ].join('\n');
+    },
+  }),
+];
+
+export const prompts: Prompt[] = templates.map(({ prompt }) => prompt);
+
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const found = templates.find(({ prompt }) => prompt.name === name);
+  if (!found) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const parsed = found.schema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(arguments)'}: ${issue.message}`);
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${issues.join('; ')}`);
+  }
+
+  return {
+    description: found.prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: found.render(parsed.data) },
+      },
+    ],
+  };
+}
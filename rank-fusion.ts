@@ -0,0 +1,111 @@
+import { SourceRecord, canonicalizeUrl } from './canonical-url.js';
+
+// Reciprocal rank fusion: each site's ranking contributes 1 / (k + rank) for
+// every result it returned, so results ranked highly by several sites rise to
+// the top without comparing the engines' raw scores. A larger k flattens the
+// advantage of the very first ranks; 60 is the value from the original paper.
+export const RRF_K = 60;
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'are', 'was', 'how', 'what', 'why', 'who',
+  'when', 'where', 'which', 'into', 'about', 'over', 'not', 'but', 'its', 'you', 'your',
+]);
+
+export interface Ranking<T> {
+  site: string;
+  items: T[];
+}
+
+export interface FusionOptions {
+  query: string;
+  // Share of the final score given to lexical relevance (0 = rank fusion only)
+  lexicalWeight: number;
+  k?: number;
+}
+
+export interface FusionAnnotation {
+  canonicalUrl: string;
+  // Site whose ranking placed the result highest, and its 1-based rank there
+  site: string;
+  siteRank: number;
+  rrfScore: number;
+  lexicalScore: number;
+  score: number;
+  sources: SourceRecord[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+// Share of the query's terms found in the title and snippet, weighting title
+// matches higher
+export function lexicalRelevance(query: string, item: { title: string; snippet: string }): number {
+  const queryTerms = [...new Set(terms(query))];
+  if (queryTerms.length === 0) return 0;
+
+  const title = new Set(terms(item.title));
+  const snippet = new Set(terms(item.snippet));
+  const coverage = (words: Set<string>) => queryTerms.filter(term => words.has(term)).length / queryTerms.length;
+  return 0.6 * coverage(title) + 0.4 * coverage(snippet);
+}
+
+// Fuse per-site rankings into one list, best first. Results are matched
+// across sites on their canonical URL, and each one keeps the item as returned
+// by the site that ranked it highest.
+export function fuseRankings<T extends { link: string; title: string; snippet: string }>(
+  rankings: Ranking<T>[],
+  { query, lexicalWeight, k = RRF_K }: FusionOptions
+): (T & FusionAnnotation)[] {
+  const fused = new Map<string, { item: T; site: string; siteRank: number; order: number; rrfScore: number; sources: SourceRecord[] }>();
+
+  rankings.forEach(({ site, items }, order) => {
+    items.forEach((item, index) => {
+      const canonicalUrl = canonicalizeUrl(item.link);
+      const rank = index + 1;
+      const entry = fused.get(canonicalUrl);
+      if (!entry) {
+        fused.set(canonicalUrl, { item, site, siteRank: rank, order, rrfScore: 1 / (k + rank), sources: [{ source: site, link: item.link }] });
+        return;
+      }
+      // A site repeating a result only counts its best rank
+      if (!entry.sources.some(record => record.source === site)) {
+        entry.rrfScore += 1 / (k + rank);
+      }
+      entry.sources.push({ source: site, link: item.link });
+      if (rank < entry.siteRank) {
+        Object.assign(entry, { item, site, siteRank: rank, order });
+      }
+    });
+  });
+
+  const entries = [...fused.entries()];
+  const topRrf = Math.max(0, ...entries.map(([, entry]) => entry.rrfScore));
+
+  return entries
+    .map(([canonicalUrl, entry]) => {
+      const lexicalScore = lexicalRelevance(query, entry.item);
+      const rrfShare = topRrf > 0 ? entry.rrfScore / topRrf : 0;
+      return {
+        fused: {
+          ...entry.item,
+          canonicalUrl,
+          site: entry.site,
+          siteRank: entry.siteRank,
+          rrfScore: round(entry.rrfScore),
+          lexicalScore: round(lexicalScore),
+          score: round((1 - lexicalWeight) * rrfShare + lexicalWeight * lexicalScore),
+          sources: entry.sources,
+        },
+        order: entry.order,
+      };
+    })
+    // Ties go to the better per-site rank, then to the site listed first
+    .sort((a, b) => b.fused.score - a.fused.score || a.fused.siteRank - b.fused.siteRank || a.order - b.order)
+    .map(({ fused: item }) => item);
+}
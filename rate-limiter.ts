@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import config from './config.js';
+import { CancelledError, cancellationReason } from './cancellation.js';
+import { errorFields, logger } from './logger.js';
+
+// Google resets the Custom Search daily quota at midnight Pacific time
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+
+// Raised when a search would exceed the local rate limit or the daily API quota
+export class QuotaExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly scope: 'daily' | 'rate',
+    public readonly resetsAt: Date,
+    public readonly used?: number,
+    public readonly limit?: number
+  ) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+
+  toJSON() {
+    return {
+      error: 'quota_exhausted',
+      scope: this.scope,
+      message: this.message,
+      resetsAt: this.resetsAt.toISOString(),
+      used: this.used,
+      limit: this.limit,
+    };
+  }
+}
+
+interface Waiter {
+  resolve: () => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+// Token bucket shared by every outbound search. Callers that find the bucket
+// empty are queued in FIFO order until enough tokens have refilled; a caller
+// whose tool call is cancelled leaves the queue with a CancelledError.
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private waiters: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private refillPerMs: number;
+
+  constructor(private capacity: number, windowMs: number) {
+    this.tokens = capacity;
+    this.refillPerMs = capacity / windowMs;
+  }
+
+  acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError(cancellationReason(signal)));
+        return;
+      }
+      const waiter: Waiter = { resolve, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.waiters = this.waiters.filter(other => other !== waiter);
+          reject(new CancelledError(cancellationReason(signal)));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.waiters.push(waiter);
+      this.drain();
+    });
+  }
+
+  get available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  // Hand out tokens to waiters in order, and wake up again once the next
+  // token has refilled
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.refill();
+    while (this.waiters.length > 0 && this.tokens >= 1) {
+      const waiter = this.waiters.shift() as Waiter;
+      if (waiter.onAbort) waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      this.tokens -= 1;
+      waiter.resolve();
+    }
+    if (this.waiters.length > 0) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => this.drain(), waitMs);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+interface QuotaState {
+  day: string;
+  used: number;
+}
+
+// Daily request counter persisted to disk so restarts do not reset the budget
+export class DailyQuota {
+  private state: QuotaState;
+
+  constructor(private limit: number, private stateFile: string) {
+    this.state = this.load();
+  }
+
+  status() {
+    this.rollover();
+    return {
+      used: this.state.used,
+      limit: this.limit,
+      remaining: Math.max(this.limit - this.state.used, 0),
+      resetsAt: DailyQuota.nextReset().toISOString(),
+    };
+  }
+
+  // Reserve one request from today's budget or throw if it is exhausted
+  consume(): void {
+    this.rollover();
+    if (this.state.used >= this.limit) {
+      const resetsAt = DailyQuota.nextReset();
+      throw new QuotaExceededError(
+        `Daily search quota exhausted (${this.state.used}/${this.limit}), resets at ${resetsAt.toISOString()}`,
+        'daily',
+        resetsAt,
+        this.state.used,
+        this.limit
+      );
+    }
+    this.state.used++;
+    this.save();
+  }
+
+  // Return a reserved request that was never sent
+  refund(): void {
+    this.rollover();
+    if (this.state.used === 0) return;
+    this.state.used--;
+    this.save();
+  }
+
+  // Mark the budget as spent, e.g. when Google reports the daily limit was hit
+  exhaust(): void {
+    this.rollover();
+    this.state.used = Math.max(this.state.used, this.limit);
+    this.save();
+  }
+
+  static currentDay(now = new Date()): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: QUOTA_TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(now);
+  }
+
+  // Midnight of the next calendar day in Pacific time. Days are 23 or 25
+  // hours long when daylight saving starts or ends, so the reset is found from
+  // the calendar date rather than by adding a day's worth of hours.
+  static nextReset(now = new Date()): Date {
+    const [year, month, day] = DailyQuota.currentDay(now).split('-').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day + 1);
+    // The offset at the guess is checked once more in case it crossed a transition
+    const guess = wallClock - DailyQuota.zoneOffset(new Date(wallClock));
+    return new Date(wallClock - DailyQuota.zoneOffset(new Date(guess)));
+  }
+
+  // How far Pacific wall-clock time is ahead of UTC at `date`, in milliseconds
+  private static zoneOffset(date: Date): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: QUOTA_TIME_ZONE,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+    const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+    return wallClock - (date.getTime() - date.getUTCMilliseconds());
+  }
+
+  private rollover(): void {
+    const today = DailyQuota.currentDay();
+    if (this.state.day !== today) {
+      this.state = { day: today, used: 0 };
+      this.save();
+    }
+  }
+
+  private load(): QuotaState {
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+      if (typeof saved.day === 'string' && typeof saved.used === 'number') {
+        return saved;
+      }
+    } catch {}
+    return { day: DailyQuota.currentDay(), used: 0 };
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state));
+    } catch (error) {
+      logger.error('Failed to persist quota state', { stateFile: this.stateFile, ...errorFields(error) });
+    }
+  }
+}
+
+export const searchRateLimiter = new TokenBucket(config.RATE_LIMIT_MAX, config.RATE_LIMIT_WINDOW_MS);
@@ -0,0 +1,503 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SEARCH_PROVIDERS } from './search-providers.js';
+import { CONTENT_FORMATS } from './content-extractor.js';
+import { DOCUMENT_TYPES } from './document-reader.js';
+import { METADATA_SOURCES } from './page-metadata.js';
+
+// Result models shared by every tool. Handlers build their output against the
+// inferred types, validate it against the schema before returning, and the
+// tools list advertises the same schemas as JSON Schema `outputSchema`.
+
+// Objects reject undeclared fields, so output that drifts from its model
+// fails validation instead of reaching clients
+function model<T extends z.ZodRawShape>(shape: T) {
+  return z.object(shape).strict();
+}
+
+export const sentimentSchema = model({
+  score: z.number(),
+  comparative: z.number(),
+  positive: z.array(z.string()),
+  negative: z.array(z.string()),
+});
+
+// Sentiment of a short excerpt, without the word lists
+export const sentimentScoreSchema = model({
+  score: z.number(),
+  comparative: z.number(),
+});
+
+export const circuitBreakerSchema = model({
+  state: z.enum(['closed', 'open', 'half-open']),
+  recentCalls: z.number(),
+  recentFailures: z.number(),
+  errorPercentage: z.number(),
+  retryAt: z.string().nullable(),
+});
+
+// Present only on results of calls that were cancelled part-way
+const partialShape = {
+  partial: z.literal(true).optional(),
+  cancellation: model({ reason: z.string() }).optional(),
+};
+
+export const sourceRecordSchema = model({
+  source: z.string(),
+  link: z.string(),
+});
+
+// Set on results merged across sources: the canonical URL duplicates were
+// matched on, and every source that returned the result with its own link
+const mergeShape = {
+  canonicalUrl: z.string().optional(),
+  sources: z.array(sourceRecordSchema).optional(),
+};
+
+export const searchItemSchema = model({
+  title: z.string(),
+  link: z.string(),
+  snippet: z.string(),
+  displayLink: z.string(),
+  publishedAt: z.string().nullable(),
+  formattedUrl: z.string().optional(),
+  pagemap: z.record(z.unknown()).optional(),
+  // From the page data returned with the result, where the provider has it
+  authors: z.array(z.string()).optional(),
+  publisher: z.string().optional(),
+  ...mergeShape,
+});
+
+// Search results for one site, source or query. `resultCount` is the number
+// of items returned, `totalAvailable` the engine's estimate of all matches.
+function searchGroupSchema<K extends string>(key: K) {
+  const keyShape = { [key]: z.string() } as { [P in K]: z.ZodString };
+  return z.union([
+    model({
+      ...keyShape,
+      resultCount: z.number(),
+      totalAvailable: z.number(),
+      items: z.array(searchItemSchema),
+    }),
+    model({ ...keyShape, error: z.string() }),
+  ]);
+}
+
+// How a `maxResults` search was paged. `apiCalls` counts requests that
+// reached the provider; pages served from the cache are free.
+export const searchPaginationSchema = model({
+  requested: z.number(),
+  pagesFetched: z.number(),
+  apiCalls: z.number(),
+  duplicatesRemoved: z.number(),
+  stoppedBecause: z.enum(['maxResults', 'exhausted', 'resultLimit', 'cancelled', 'error']),
+  error: z.string().optional(),
+});
+
+export const googleSearchResultSchema = model({
+  searchInfo: model({
+    provider: z.enum(SEARCH_PROVIDERS),
+    totalResults: z.string(),
+    searchTime: z.number(),
+    formattedSearchTime: z.string(),
+    apiCalls: z.number(),
+    quotaUnitsUsed: z.number(),
+  }),
+  items: z.array(searchItemSchema),
+  pagination: searchPaginationSchema.optional(),
+  circuitBreaker: circuitBreakerSchema,
+});
+
+export const pdfInfoSchema = model({
+  pageCount: z.number(),
+  metadata: model({
+    title: z.string().optional(),
+    author: z.string().optional(),
+    subject: z.string().optional(),
+    keywords: z.string().optional(),
+    creationDate: z.string().optional(),
+  }),
+  // Text of each page; in extract_content output, only the pages and the
+  // part of their text that the returned chunk covers
+  pages: z.array(model({ page: z.number(), text: z.string() })),
+});
+
+// Structured metadata of a page; see page-metadata.ts for where each field comes from
+export const pageMetadataSchema = model({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  authors: z.array(z.string()),
+  publisher: z.string().optional(),
+  publishedAt: z.string().optional(),
+  modifiedAt: z.string().optional(),
+  canonicalUrl: z.string().optional(),
+  language: z.string().optional(),
+  type: z.string().optional(),
+  image: z.string().optional(),
+  keywords: z.array(z.string()),
+  sources: z.array(z.enum(METADATA_SOURCES)),
+});
+
+// Who wrote and published a page and when, from its metadata
+const attributionShape = {
+  authors: z.array(z.string()),
+  publisher: z.string().optional(),
+  publishedAt: z.string().optional(),
+};
+
+export const extractedPageSchema = model({
+  url: z.string(),
+  title: z.string(),
+  content: z.string(),
+  format: z.enum(CONTENT_FORMATS),
+  documentType: z.enum(DOCUMENT_TYPES),
+  // Character encoding an HTML page was decoded from, such as UTF-8 or Shift_JIS
+  encoding: z.string().optional(),
+  pdf: pdfInfoSchema.optional(),
+  wordCount: z.number(),
+  sentiment: sentimentSchema,
+  // Canonical form of the URL the page declares with rel=canonical, or of `url`
+  canonicalUrl: z.string().optional(),
+  metadata: pageMetadataSchema,
+  // Position of `content` among the page's chunks; nextCursor is absent on the last one
+  chunkIndex: z.number(),
+  totalChunks: z.number(),
+  nextCursor: z.string().optional(),
+  // Set on pages read back from the result store
+  extractedAt: z.string().optional(),
+  resourceUri: z.string().optional(),
+});
+
+// A page as kept in the result store: the whole content rather than one chunk
+export const storedPageSchema = extractedPageSchema.omit({ chunkIndex: true, totalChunks: true, nextCursor: true, resourceUri: true });
+
+export const searchAnalyticsResultSchema = model({
+  queries: z.array(z.string()),
+  timeRange: z.enum(['week', 'month', 'year']),
+  results: z.array(searchGroupSchema('query')),
+  summary: model({
+    totalResults: z.number(),
+    averageResults: z.number(),
+    topPerformingQuery: z.string(),
+    commonKeywords: z.array(z.string()),
+  }),
+  ...partialShape,
+  circuitBreaker: circuitBreakerSchema,
+});
+
+// A result in the fused ranking of multi_site_search, with the site that
+// ranked it highest and its scores
+export const fusedItemSchema = searchItemSchema.extend({
+  canonicalUrl: z.string(),
+  site: z.string(),
+  siteRank: z.number(),
+  rrfScore: z.number(),
+  lexicalScore: z.number(),
+  score: z.number(),
+  sources: z.array(sourceRecordSchema),
+});
+
+export const multiSiteSearchResultSchema = model({
+  query: z.string(),
+  sites: z.array(z.string()),
+  results: z.array(searchGroupSchema('site')),
+  // Present when called with `merge: true`
+  merged: model({
+    method: z.enum(['rrf', 'rrf+lexical']),
+    k: z.number(),
+    lexicalWeight: z.number(),
+    items: z.array(fusedItemSchema),
+  }).optional(),
+  summary: model({
+    totalResults: z.number(),
+    sitesSearched: z.number(),
+    successfulSearches: z.number(),
+    duplicatesMerged: z.number(),
+  }),
+  ...partialShape,
+  circuitBreaker: circuitBreakerSchema,
+});
+
+export const newsMonitorResultSchema = model({
+  topic: z.string(),
+  sources: z.array(z.string()),
+  language: z.string(),
+  country: z.string(),
+  dateRestrict: z.string(),
+  sortBy: z.enum(['relevance', 'date']),
+  results: z.array(searchGroupSchema('source')),
+  summary: model({
+    totalArticles: z.number(),
+    sourcesFound: z.number(),
+    duplicatesMerged: z.number(),
+    dateRange: z.string(),
+  }),
+  ...partialShape,
+  circuitBreaker: circuitBreakerSchema,
+});
+
+export const academicSearchResultSchema = model({
+  query: z.string(),
+  fileType: z.string(),
+  dateRange: z.string(),
+  sites: z.array(z.string()),
+  results: z.array(searchGroupSchema('site')),
+  summary: model({
+    totalPapers: z.number(),
+    sitesSearched: z.number(),
+    successfulSearches: z.number(),
+    duplicatesMerged: z.number(),
+    dateRange: z.string(),
+  }),
+  ...partialShape,
+  circuitBreaker: circuitBreakerSchema,
+});
+
+export const pageSummarySchema = z.union([
+  model({
+    url: z.string(),
+    title: z.string(),
+    summary: z.string(),
+    documentType: z.enum(DOCUMENT_TYPES),
+    wordCount: z.number(),
+    sentiment: sentimentSchema.optional(),
+    extractionTime: z.string(),
+    resourceUri: z.string().optional(),
+  }),
+  model({
+    url: z.string(),
+    error: z.string(),
+    extractionTime: z.string(),
+  }),
+]);
+
+export const contentSummaryResultSchema = model({
+  urls: z.array(z.string()),
+  maxLength: z.number(),
+  includeSentiment: z.boolean(),
+  focusAreas: z.array(z.string()),
+  generateOverallSummary: z.boolean(),
+  summaries: z.array(pageSummarySchema),
+  overallSummary: z.string(),
+  statistics: model({
+    totalUrls: z.number(),
+    successfulExtractions: z.number(),
+    failedExtractions: z.number(),
+    averageWordCount: z.number(),
+    sentimentDistribution: model({
+      positive: z.number(),
+      negative: z.number(),
+      neutral: z.number(),
+    }),
+  }),
+  ...partialShape,
+});
+
+// A search item scored against the claim or topic and for credibility
+export const scoredItemSchema = model({
+  title: z.string(),
+  link: z.string(),
+  snippet: z.string(),
+  displayLink: z.string(),
+  relevanceScore: z.number(),
+  credibilityScore: z.number(),
+  credibilityReason: z.string(),
+  ...mergeShape,
+});
+
+export const factCheckSourceSchema = z.union([
+  model({
+    source: z.string(),
+    resultCount: z.number(),
+    totalAvailable: z.number(),
+    items: z.array(scoredItemSchema),
+    credibilityScore: z.number(),
+  }),
+  model({ source: z.string(), error: z.string() }),
+]);
+
+export const evidenceSchema = model({
+  source: z.string(),
+  url: z.string(),
+  title: z.string(),
+  evidence: z.string(),
+  relevanceScore: z.number(),
+  credibilityScore: z.number(),
+  credibilityReason: z.string(),
+  sentiment: sentimentScoreSchema,
+  ...attributionShape,
+});
+
+export const verificationStatusSchema = z.enum(['verified', 'disputed', 'unverified', 'unknown']);
+
+export const factCheckReportSchema = model({
+  claim: z.string(),
+  sourcesToCheck: z.array(z.string()),
+  confidenceThreshold: z.number(),
+  timeframe: z.string(),
+  maxResults: z.number(),
+  includeEvidence: z.boolean(),
+  verification: model({
+    status: verificationStatusSchema,
+    confidence: z.number(),
+    evidenceCount: z.number(),
+    supportingSources: z.array(z.string()),
+    disputingSources: z.array(z.string()),
+    neutralSources: z.array(z.string()),
+  }),
+  sources: z.array(factCheckSourceSchema),
+  evidence: z.array(evidenceSchema),
+  statistics: model({
+    totalSourcesChecked: z.number(),
+    successfulSearches: z.number(),
+    failedSearches: z.number(),
+    totalResults: z.number(),
+    averageRelevanceScore: z.number(),
+  }),
+  ...partialShape,
+  resourceUri: z.string().optional(),
+  circuitBreaker: circuitBreakerSchema,
+});
+
+export const researchSourceSchema = z.union([
+  model({
+    source: z.string(),
+    category: z.string(),
+    resultCount: z.number(),
+    totalAvailable: z.number(),
+    items: z.array(scoredItemSchema),
+    credibilityScore: z.number(),
+  }),
+  model({ source: z.string(), category: z.string(), error: z.string() }),
+]);
+
+export const researchFindingSchema = model({
+  source: z.string(),
+  category: z.string(),
+  url: z.string(),
+  title: z.string(),
+  content: z.string(),
+  wordCount: z.number(),
+  sentiment: sentimentSchema,
+  relevanceScore: z.number(),
+  credibilityScore: z.number(),
+  credibilityReason: z.string(),
+  extractionTime: z.string(),
+  ...attributionShape,
+  ...mergeShape,
+  // Added by content analysis
+  keyInsights: z.array(z.string()).optional(),
+  contentQualityScore: z.number().optional(),
+  focusAnalysis: z.record(z.array(z.string())).optional(),
+});
+
+export const citationSchema = model({
+  title: z.string(),
+  url: z.string(),
+  source: z.string(),
+  category: z.string(),
+  credibilityScore: z.number(),
+  credibilityReason: z.string(),
+  relevanceScore: z.number(),
+  // Known when the cited page was read for a finding
+  authors: z.array(z.string()).optional(),
+  publishedAt: z.string().optional(),
+  accessedDate: z.string(),
+});
+
+export const synthesisSchema = model({
+  keyFindings: z.array(z.string()),
+  conflictingInformation: z.array(z.string()),
+  consensusPoints: z.array(z.string()),
+  gapsInKnowledge: z.array(z.string()),
+  confidenceLevel: z.number(),
+});
+
+// The written report generated from a research run
+export const writtenReportSchema = model({
+  title: z.string(),
+  executiveSummary: z.string(),
+  methodology: z.string(),
+  findings: z.string(),
+  synthesis: z.string(),
+  recommendations: z.string(),
+  limitations: z.string(),
+  citations: z.array(citationSchema),
+  metadata: model({
+    generatedAt: z.string(),
+    researchType: z.string(),
+    depth: z.string(),
+    totalSources: z.number(),
+    confidenceLevel: z.number(),
+    qualityScore: z.number(),
+  }),
+});
+
+export const researchReportSchema = model({
+  researchTopic: z.string(),
+  researchType: z.enum(['academic', 'news', 'factual', 'comprehensive']),
+  searchProvider: z.enum(SEARCH_PROVIDERS),
+  depth: z.enum(['quick', 'standard', 'deep']),
+  timeframe: z.string(),
+  maxSourcesPerType: z.number(),
+  includeCitations: z.boolean(),
+  generateReport: z.boolean(),
+  focusAreas: z.array(z.string()),
+  researchWorkflow: model({
+    phase: z.string(),
+    stepsCompleted: z.number(),
+    totalSteps: z.number(),
+    currentStep: z.string(),
+  }),
+  sourceCategories: z.array(z.string()),
+  findings: z.array(researchFindingSchema),
+  sources: z.array(researchSourceSchema),
+  citations: z.array(citationSchema),
+  synthesis: synthesisSchema,
+  report: writtenReportSchema.nullable(),
+  statistics: model({
+    totalSourcesSearched: z.number(),
+    successfulSearches: z.number(),
+    failedSearches: z.number(),
+    totalResults: z.number(),
+    duplicatesMerged: z.number(),
+    averageCredibilityScore: z.number(),
+    researchQualityScore: z.number(),
+  }),
+  ...partialShape,
+  resourceUri: z.string().optional(),
+  circuitBreaker: circuitBreakerSchema,
+});
+
+export type Sentiment = z.infer<typeof sentimentSchema>;
+export type SearchItem = z.infer<typeof searchItemSchema>;
+export type SearchPagination = z.infer<typeof searchPaginationSchema>;
+export type GoogleSearchResult = z.infer<typeof googleSearchResultSchema>;
+export type PdfInfo = z.infer<typeof pdfInfoSchema>;
+export type ExtractedPage = z.infer<typeof extractedPageSchema>;
+export type StoredPage = z.infer<typeof storedPageSchema>;
+export type SearchAnalyticsResult = z.infer<typeof searchAnalyticsResultSchema>;
+export type FusedItem = z.infer<typeof fusedItemSchema>;
+export type MultiSiteSearchResult = z.infer<typeof multiSiteSearchResultSchema>;
+export type NewsMonitorResult = z.infer<typeof newsMonitorResultSchema>;
+export type AcademicSearchResult = z.infer<typeof academicSearchResultSchema>;
+export type PageSummary = z.infer<typeof pageSummarySchema>;
+export type ContentSummaryResult = z.infer<typeof contentSummaryResultSchema>;
+export type ScoredItem = z.infer<typeof scoredItemSchema>;
+export type FactCheckSource = z.infer<typeof factCheckSourceSchema>;
+export type Evidence = z.infer<typeof evidenceSchema>;
+export type FactCheckReport = z.infer<typeof factCheckReportSchema>;
+export type ResearchSource = z.infer<typeof researchSourceSchema>;
+export type ResearchFinding = z.infer<typeof researchFindingSchema>;
+export type Citation = z.infer<typeof citationSchema>;
+export type Synthesis = z.infer<typeof synthesisSchema>;
+export type WrittenReport = z.infer<typeof writtenReportSchema>;
+export type ResearchReport = z.infer<typeof researchReportSchema>;
+
+// JSON Schema for a tool's `outputSchema`, with shared parts inlined so each
+// tool's schema is self-contained
+export function toOutputSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = zodToJsonSchema(schema, { $refStrategy: 'none' });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import config from './config.js';
+import { errorFields, logger } from './logger.js';
+
+// Kinds of stored results; each is exposed under the URI scheme of the same name
+export type StoredKind = 'research' | 'factcheck' | 'page';
+
+export interface StoredResult {
+  uri: string;
+  kind: StoredKind;
+  id: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  data: unknown;
+}
+
+// URI templates advertised to clients, one per kind
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'research://{id}',
+    name: 'Research report',
+    description: 'A research_assistant report, by the request ID of the call that produced it',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'factcheck://{id}',
+    name: 'Fact check',
+    description: 'A fact_checker verdict with its sources and evidence, by request ID',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'page://{hash}',
+    name: 'Extracted page',
+    description: 'Content extracted from a web page by extract_content or content_summarizer, by URL hash',
+    mimeType: 'application/json',
+  },
+];
+
+// In-process store of tool results, exposed as MCP resources. Holds at most
+// `maxEntries` results; the oldest one is dropped first. Storing the same URI
+// again replaces the earlier result.
+export class ResultStore {
+  private entries = new Map<string, StoredResult>();
+  private listeners = new Set<() => void>();
+
+  constructor(private maxEntries: number) {}
+
+  static uri(kind: StoredKind, id: string): string {
+    return `${kind}://${id}`;
+  }
+
+  // Stable ID for a page, so re-extracting a URL updates the same resource
+  static pageId(url: string): string {
+    return crypto.createHash('sha1').update(url).digest('hex').slice(0, 12);
+  }
+
+  save(kind: StoredKind, id: string, meta: { name: string; description: string }, data: unknown): StoredResult | null {
+    if (this.maxEntries <= 0) return null;
+
+    const uri = ResultStore.uri(kind, id);
+    const entry: StoredResult = { uri, kind, id, ...meta, createdAt: new Date().toISOString(), data };
+    this.entries.delete(uri);
+    this.entries.set(uri, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestUri = this.entries.keys().next().value as string;
+      this.entries.delete(oldestUri);
+    }
+
+    logger.debug('Result stored', { uri, kind });
+    this.notify();
+    return entry;
+  }
+
+  get(uri: string): StoredResult | undefined {
+    return this.entries.get(uri);
+  }
+
+  // Newest first
+  list(): StoredResult[] {
+    return [...this.entries.values()].reverse();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Subscribe to additions; returns an unsubscribe function
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.debug('Result store listener failed', errorFields(error));
+      }
+    }
+  }
+}
+
+export const resultStore = new ResultStore(config.RESULT_STORE_SIZE);
@@ -0,0 +1,385 @@
+import axios, { type AxiosError } from 'axios';
+import config from './config.js';
+import { QuotaExceededError, searchRateLimiter } from './rate-limiter.js';
+import { ApiKeyPool, KeyFailure, PooledKey, googleKeyPool } from './key-pool.js';
+import { CircuitOpenError, searchBreaker } from './circuit-breaker.js';
+import { throwIfCancelled, toCancelledError } from './cancellation.js';
+import { fixtureStore } from './fixtures.js';
+import { pagemapMetadata } from './page-metadata.js';
+import type { SearchItem } from './result-models.js';
+
+export const SEARCH_PROVIDERS = ['google', 'searxng'] as const;
+export type SearchProviderName = typeof SEARCH_PROVIDERS[number];
+
+// Provider-independent search parameters, modelled on the Custom Search API
+export interface SearchRequest {
+  query: string;
+  siteSearch?: string;
+  fileType?: string;
+  dateRestrict?: string;
+  safe?: string;
+  exactTerms?: string;
+  excludeTerms?: string;
+  sort?: string;
+  gl?: string;
+  hl?: string;
+  num?: number;
+  start?: number;
+}
+
+// Results per request, and how deep into a query's results the Custom Search
+// API will page (start + num - 1 may not exceed it)
+export const SEARCH_PAGE_SIZE = 10;
+export const MAX_SEARCH_RESULTS = 100;
+
+// Common item shape every provider normalizes its results to
+export type { SearchItem };
+
+export interface SearchResponse {
+  provider: SearchProviderName;
+  // Cache scope of the engine that answered, when it can differ from the
+  // provider's cacheScope at lookup time
+  cacheScope?: string;
+  totalResults: number;
+  searchTime: number;
+  items: SearchItem[];
+}
+
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  // Identifies the backend instance in cache keys, so different engines never share entries
+  readonly cacheScope: string;
+  search(request: SearchRequest, signal?: AbortSignal): Promise<SearchResponse>;
+}
+
+const CUSTOM_SEARCH_ENDPOINT = 'https://www.googleapis.com/customsearch/v1';
+
+// The parts of a Custom Search API response that are read here
+interface CseItem {
+  title: string;
+  link: string;
+  snippet?: string;
+  displayLink: string;
+  formattedUrl?: string;
+  pagemap?: Record<string, unknown>;
+}
+
+interface CseResponse {
+  searchInformation?: { totalResults?: string; searchTime?: number };
+  items?: CseItem[];
+}
+
+interface CseErrorBody {
+  error?: { message?: string; errors?: { reason?: string }[] };
+}
+
+// Google Custom Search. Every request waits for a rate limiter token, draws a
+// key from the API key pool (which counts it against that key's daily quota)
+// and goes through the circuit breaker. Quota, rate limit and 403 responses take the
+// key out of rotation and the request is retried on the next key.
+export class GoogleSearchProvider implements SearchProvider {
+  readonly name = 'google' as const;
+
+  // cseId, when set (e.g. from a named profile), overrides each key's own engine
+  constructor(private pool: ApiKeyPool, private cseId?: string) {}
+
+  // Keys can carry their own engine, so the scope names the engine of the key
+  // the pool hands out next; each response reports the engine that answered
+  get cacheScope(): string {
+    return `google:${this.engine(this.pool.peek())}`;
+  }
+
+  async search(request: SearchRequest, signal?: AbortSignal): Promise<SearchResponse> {
+    const tried = new Set<string>();
+    let data: CseResponse;
+    let cacheScope: string;
+
+    for (;;) {
+      throwIfCancelled(signal);
+      searchBreaker.assertCallable();
+      await searchRateLimiter.acquire(signal);
+      // The key is drawn, and its quota charged, only once the request is
+      // about to be sent; the breaker may have opened during the wait
+      searchBreaker.assertCallable();
+      const key = this.pool.acquire(tried);
+
+      try {
+        data = await searchBreaker.execute(async callSignal => {
+          const response = await axios.get<CseResponse>(CUSTOM_SEARCH_ENDPOINT, {
+            params: this.buildParams(request, key),
+            timeout: 10000,
+            signal: callSignal,
+          });
+          return response.data;
+        }, signal);
+        this.pool.reportSuccess(key.id);
+        cacheScope = `google:${this.engine(key)}`;
+        break;
+      } catch (error) {
+        const cancelled = toCancelledError(error, signal);
+        if (cancelled) throw cancelled;
+        // Turned away by the breaker without a request going out
+        if (error instanceof CircuitOpenError) {
+          this.pool.release(key.id);
+          throw error;
+        }
+
+        const failure = this.classifyKeyFailure(error);
+        if (failure) {
+          this.pool.reportFailure(key.id, failure, this.errorMessage(error));
+          tried.add(key.id);
+          if (tried.size < this.pool.size) continue;
+          // Every key has failed; report the quota state rather than the last raw error
+          if (failure === 'forbidden') {
+            throw new Error(`Google Search API error: ${this.errorMessage(error)}`);
+          }
+          throw this.pool.unavailableError();
+        }
+
+        if (axios.isAxiosError(error)) {
+          throw new Error(`Google Search API error: ${this.errorMessage(error)}`);
+        }
+        throw error;
+      }
+    }
+
+    return {
+      provider: this.name,
+      cacheScope,
+      totalResults: parseInt(data.searchInformation?.totalResults || '0'),
+      searchTime: data.searchInformation?.searchTime || 0,
+      items: (data.items || []).map(item => this.toSearchItem(item)),
+    };
+  }
+
+  private buildParams(request: SearchRequest, key: PooledKey): Record<string, string> {
+    const params: Record<string, string> = {
+      key: key.apiKey,
+      cx: this.engine(key),
+      q: request.query,
+    };
+
+    const optionalParams: (keyof SearchRequest)[] = [
+      'fileType', 'siteSearch', 'dateRestrict', 'safe', 'exactTerms', 'excludeTerms', 'sort', 'gl', 'hl', 'num', 'start',
+    ];
+    for (const key of optionalParams) {
+      if (request[key] !== undefined) {
+        params[key] = String(request[key]);
+      }
+    }
+
+    return params;
+  }
+
+  private engine(key: PooledKey | null): string {
+    return this.cseId || key?.cseId || config.GOOGLE_CSE_ID || '';
+  }
+
+  // Dates and attribution come from the page data returned with the result,
+  // which is only as complete as the page's own metadata
+  private toSearchItem(item: CseItem): SearchItem {
+    const metadata = pagemapMetadata(item.pagemap);
+    return {
+      title: item.title,
+      link: item.link,
+      snippet: item.snippet || '',
+      displayLink: item.displayLink,
+      publishedAt: metadata.publishedAt || metadata.modifiedAt || null,
+      formattedUrl: item.formattedUrl,
+      pagemap: item.pagemap,
+      ...(metadata.authors.length > 0 && { authors: metadata.authors }),
+      ...(metadata.publisher && { publisher: metadata.publisher }),
+    };
+  }
+
+  private errorMessage(error: unknown): string {
+    if (axios.isAxiosError<CseErrorBody>(error)) {
+      return error.response?.data?.error?.message || error.message;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  // Responses that mean this particular key cannot be used right now
+  private classifyKeyFailure(error: unknown): KeyFailure | null {
+    if (!axios.isAxiosError<CseErrorBody>(error) || !error.response) return null;
+
+    const { status, data } = error.response;
+    const message = data?.error?.message || '';
+    const reason = data?.error?.errors?.[0]?.reason || '';
+    const isDaily = /per day/i.test(message) || reason === 'dailyLimitExceeded';
+
+    if (isDaily && (status === 429 || status === 403)) return 'quota';
+    if (status === 429) return 'rate';
+    if (status === 403) return 'forbidden';
+    return null;
+  }
+}
+
+// The parts of a SearxNG JSON API response that are read here
+interface SearxngResult {
+  title?: string;
+  url: string;
+  content?: string;
+  publishedDate?: string | null;
+}
+
+interface SearxngResponse {
+  number_of_results?: number;
+  results?: SearxngResult[];
+}
+
+// Error body of SearxNG's JSON API; other failures come as plain or HTML pages
+interface SearxngErrorBody {
+  error?: string;
+  message?: string;
+}
+
+// Self-hosted SearxNG instance queried through its JSON API. Filters without a
+// native SearxNG parameter are expressed as query operators.
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = 'searxng' as const;
+
+  constructor(private baseUrl: string) {}
+
+  get cacheScope(): string {
+    return `searxng:${this.baseUrl}`;
+  }
+
+  async search(request: SearchRequest, signal?: AbortSignal): Promise<SearchResponse> {
+    throwIfCancelled(signal);
+    const num = request.num || 10;
+    const params: Record<string, string> = {
+      q: this.buildQuery(request),
+      format: 'json',
+      pageno: String(request.start ? Math.floor((request.start - 1) / 10) + 1 : 1),
+    };
+
+    if (request.hl) params.language = request.hl;
+    if (request.safe) params.safesearch = request.safe === 'active' ? '2' : '0';
+    const timeRange = this.toTimeRange(request.dateRestrict);
+    if (timeRange) params.time_range = timeRange;
+
+    const startedAt = Date.now();
+    let data: SearxngResponse;
+    try {
+      const response = await axios.get<SearxngResponse>(`${this.baseUrl.replace(/\/+$/, '')}/search`, {
+        params,
+        timeout: 10000,
+        signal,
+      });
+      data = response.data;
+    } catch (error) {
+      const cancelled = toCancelledError(error, signal);
+      if (cancelled) throw cancelled;
+      if (axios.isAxiosError(error)) {
+        throw new Error(`SearxNG search error: ${this.errorMessage(error)}`);
+      }
+      throw error;
+    }
+
+    const results = data.results || [];
+    let items: SearchItem[] = results.map(result => ({
+      title: result.title || '',
+      link: result.url,
+      snippet: result.content || '',
+      displayLink: this.hostOf(result.url),
+      publishedAt: result.publishedDate || null,
+    }));
+
+    if (request.sort === 'date') {
+      items = [...items].sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''));
+    }
+
+    return {
+      provider: this.name,
+      totalResults: data.number_of_results || results.length,
+      searchTime: (Date.now() - startedAt) / 1000,
+      items: items.slice(0, num),
+    };
+  }
+
+  // The status with whatever the instance said about it: a JSON error, or
+  // the text of a plain or HTML error page such as the rate limiter's
+  private errorMessage(error: AxiosError<SearxngErrorBody | string>): string {
+    if (!error.response) return error.message;
+    const { status, data } = error.response;
+    const body = typeof data === 'string' ? data : data?.error || data?.message || (data ? JSON.stringify(data) : '');
+    const detail = body.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 300);
+    return detail ? `HTTP ${status}: ${detail}` : `HTTP ${status}`;
+  }
+
+  private buildQuery(request: SearchRequest): string {
+    const parts = [request.query];
+    if (request.exactTerms) parts.push(`"${request.exactTerms}"`);
+    if (request.excludeTerms) {
+      parts.push(...request.excludeTerms.split(/\s+/).filter(Boolean).map(term => `-${term}`));
+    }
+    if (request.siteSearch) parts.push(`site:${request.siteSearch}`);
+    if (request.fileType) parts.push(`filetype:${request.fileType}`);
+    return parts.join(' ');
+  }
+
+  private toTimeRange(dateRestrict?: string): string | undefined {
+    if (!dateRestrict) return undefined;
+    if (dateRestrict === 'd1') return 'day';
+    if (dateRestrict.startsWith('d') || dateRestrict.startsWith('w')) return 'week';
+    if (dateRestrict === 'm1' || dateRestrict === 'm2') return 'month';
+    return 'year';
+  }
+
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  }
+}
+
+const providers = new Map<string, SearchProvider>();
+
+// Resolve a provider by name, falling back to SEARCH_PROVIDER. A CSE profile
+// selects one of the named Google engines from GOOGLE_CSE_PROFILES; other
+// backends ignore it. In fixture record/replay mode the provider is wrapped by
+// the fixture store.
+export function getSearchProvider(name?: SearchProviderName, cseProfile?: string): SearchProvider {
+  const providerName = name || config.SEARCH_PROVIDER;
+  const profile = providerName === 'google' && fixtureStore.mode !== 'replay' ? cseProfile : undefined;
+  const cacheKey = profile ? `${providerName}:${profile}` : providerName;
+
+  let provider = providers.get(cacheKey);
+  if (!provider) {
+    if (fixtureStore.mode === 'replay') {
+      provider = fixtureStore.replayProvider(providerName);
+    } else if (providerName === 'searxng') {
+      if (!config.SEARXNG_URL) {
+        throw new Error('SearxNG provider requires SEARXNG_URL to be configured');
+      }
+      provider = new SearxngSearchProvider(config.SEARXNG_URL);
+    } else {
+      if (googleKeyPool.size === 0) {
+        throw new Error('Google provider requires GOOGLE_API_KEY or GOOGLE_API_KEYS to be configured');
+      }
+      provider = new GoogleSearchProvider(googleKeyPool, profile ? resolveCseProfile(profile) : undefined);
+    }
+
+    if (fixtureStore.mode === 'record') {
+      provider = fixtureStore.recordingProvider(provider);
+    }
+    providers.set(cacheKey, provider);
+  }
+
+  return provider;
+}
+
+function resolveCseProfile(profile: string): string {
+  const cseId = config.GOOGLE_CSE_PROFILES[profile];
+  if (!cseId) {
+    const configured = Object.keys(config.GOOGLE_CSE_PROFILES);
+    throw new Error(
+      `Unknown CSE profile "${profile}"` +
+      (configured.length > 0 ? ` (configured: ${configured.join(', ')})` : ' (no GOOGLE_CSE_PROFILES configured)')
+    );
+  }
+  return cseId;
+}
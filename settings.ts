@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import config from './config.js';
+import { errorFields, logger } from './logger.js';
+
+// Editorial settings: source catalogs, credibility scores, default timeframes and
+// per-tool limits. They live in an optional JSON or YAML file (SETTINGS_FILE)
+// that is watched and reloaded on change; every field falls back to the
+// built-in default below.
+
+const NEWS_DATE_RANGES = ['d1', 'd7', 'm1', 'm6', 'y1'] as const;
+const DATE_RANGES = ['d1', 'd7', 'm1', 'm6', 'y1', 'y2'] as const;
+
+const sourceList = z.array(z.string().min(1)).min(1);
+// Category name -> sources searched for it
+const sourceCatalog = z.record(sourceList);
+const score = z.number().min(0).max(1);
+const concurrency = z.number().int().min(1).max(10).optional();
+
+const settingsSchema = z.object({
+  sources: z.object({
+    factChecker: sourceList.default([
+      'wikipedia.org',
+      'bbc.com',
+      'reuters.com',
+      'ap.org',
+      'factcheck.org',
+      'snopes.com',
+      'politifact.com',
+      'scholar.google.com',
+      'pubmed.ncbi.nlm.nih.gov',
+      'nature.com',
+    ]),
+    academicSearch: sourceList.default(['arxiv.org', 'scholar.google.com', 'researchgate.net']),
+    // research_assistant catalogs, one per research type
+    researchCategories: z.object({
+      academic: sourceCatalog.default({
+        'Academic Journals': ['scholar.google.com', 'pubmed.ncbi.nlm.nih.gov', 'nature.com', 'science.org', 'nejm.org'],
+        'Educational': ['wikipedia.org', 'edu', 'mit.edu', 'stanford.edu'],
+        'Research': ['arxiv.org', 'researchgate.net', 'academia.edu'],
+      }),
+      news: sourceCatalog.default({
+        'News Sources': ['bbc.com', 'reuters.com', 'ap.org', 'cnn.com', 'nytimes.com'],
+        'Fact Checkers': ['factcheck.org', 'snopes.com', 'politifact.com'],
+        'International': ['guardian.com', 'dw.com', 'france24.com'],
+      }),
+      factual: sourceCatalog.default({
+        'Government': ['who.int', 'cdc.gov', 'nih.gov', 'gov', 'europa.eu'],
+        'Scientific': ['nature.com', 'science.org', 'pubmed.ncbi.nlm.nih.gov'],
+        'Reference': ['wikipedia.org', 'britannica.com', 'encyclopedia.com'],
+      }),
+      comprehensive: sourceCatalog.default({
+        'Academic': ['scholar.google.com', 'pubmed.ncbi.nlm.nih.gov', 'nature.com', 'science.org'],
+        'News': ['bbc.com', 'reuters.com', 'ap.org', 'factcheck.org'],
+        'Government': ['who.int', 'cdc.gov', 'nih.gov'],
+        'Reference': ['wikipedia.org', 'britannica.com'],
+        'Specialized': ['arxiv.org', 'researchgate.net'],
+      }),
+    }).strict().default({}),
+  }).strict().default({}),
+  // Adjustments to the built-in scores in credibility.ts
+  credibility: z.object({
+    // Score for hosts matched by no domain, domain class or category
+    default: score.default(0.5),
+    // Domain or suffix (e.g. `gov.uk`) -> score; also applies to subdomains
+    overrides: z.record(score).default({}),
+    // Research category name -> score for unscored hosts found under it
+    categories: z.record(score).default({}),
+  }).strict().default({}),
+  timeframes: z.object({
+    news_monitor: z.enum(NEWS_DATE_RANGES).default('d7'),
+    academic_search: z.enum(DATE_RANGES).default('y1'),
+    fact_checker: z.enum(DATE_RANGES).default('y1'),
+    research_assistant: z.enum(DATE_RANGES).default('y1'),
+  }).strict().default({}),
+  // Defaults used when a tool call does not pass the argument itself
+  limits: z.object({
+    search_analytics: z.object({
+      maxResults: z.number().int().min(1).max(5).default(3),
+    }).strict().default({}),
+    multi_site_search: z.object({
+      maxResults: z.number().int().min(1).max(5).default(3),
+      concurrency,
+    }).strict().default({}),
+    news_monitor: z.object({
+      maxResults: z.number().int().min(1).max(10).default(5),
+      concurrency,
+    }).strict().default({}),
+    academic_search: z.object({
+      maxResults: z.number().int().min(1).max(10).default(5),
+      concurrency,
+    }).strict().default({}),
+    content_summarizer: z.object({
+      concurrency,
+    }).strict().default({}),
+    fact_checker: z.object({
+      maxResults: z.number().int().min(1).max(5).default(3),
+      concurrency,
+    }).strict().default({}),
+    research_assistant: z.object({
+      maxSourcesPerType: z.number().int().min(2).max(8).default(5),
+      // Search results requested per source, and how many of them are fetched for analysis
+      resultsPerSource: z.number().int().min(1).max(10).default(5),
+      extractionsPerSource: z.number().int().min(0).max(10).default(2),
+      concurrency,
+    }).strict().default({}),
+  }).strict().default({}),
+}).strict();
+
+export type Settings = z.infer<typeof settingsSchema>;
+export type ResearchType = keyof Settings['sources']['researchCategories'];
+
+// Raised when the settings file cannot be read, parsed or validated
+export class SettingsError extends Error {
+  constructor(file: string, detail: string) {
+    super(`Invalid settings file ${file}: ${detail}`);
+    this.name = 'SettingsError';
+  }
+}
+
+// Holds the current settings and swaps them atomically when the file changes.
+// A file that fails to load or validate on reload is rejected and the previous
+// settings stay in effect.
+export class SettingsStore {
+  private settings: Settings;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(private file?: string) {
+    this.settings = file ? SettingsStore.load(file) : settingsSchema.parse({});
+  }
+
+  static load(file: string): Settings {
+    let raw: unknown;
+    try {
+      const text = fs.readFileSync(file, 'utf8');
+      raw = /\.ya?ml$/i.test(file) ? yaml.load(text) : JSON.parse(text);
+    } catch (error) {
+      throw new SettingsError(file, error instanceof Error ? error.message : String(error));
+    }
+
+    const result = settingsSchema.safeParse(raw ?? {});
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new SettingsError(file, issues.join('; '));
+    }
+    return result.data;
+  }
+
+  // Settings in effect right now. Callers should read this once per tool call
+  // so a reload cannot change values halfway through.
+  get current(): Settings {
+    return this.settings;
+  }
+
+  reload(): boolean {
+    if (!this.file) return false;
+    try {
+      this.settings = SettingsStore.load(this.file);
+      logger.info('Settings reloaded', { file: this.file });
+      return true;
+    } catch (error) {
+      logger.error('Settings reload failed, keeping previous settings', { file: this.file, ...errorFields(error) });
+      return false;
+    }
+  }
+
+  // Watch the file's directory rather than the file itself, so editors that
+  // save by replacing the file are picked up too
+  watch(): void {
+    if (!this.file || this.watcher) return;
+
+    const target = path.basename(this.file);
+    this.watcher = fs.watch(path.dirname(path.resolve(this.file)), (_event, filename) => {
+      if (filename && filename.toString() !== target) return;
+      // Editors often write in several steps; reload once things settle
+      if (this.reloadTimer) clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        this.reload();
+      }, 200);
+      this.reloadTimer.unref();
+    });
+    this.watcher.unref();
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+  }
+}
+
+let store: SettingsStore | null = null;
+
+// Load SETTINGS_FILE and start watching it, once. Throws SettingsError when the
+// file is invalid; the entry point calls this on startup and decides what a
+// bad file means for the process.
+export function loadSettings(): SettingsStore {
+  if (!store) {
+    store = new SettingsStore(config.SETTINGS_FILE);
+    store.watch();
+  }
+  return store;
+}
+
+// The shared settings, loaded on first use if the entry point has not already
+export const settings = {
+  get current(): Settings {
+    return loadSettings().current;
+  },
+};